@@ -7,8 +7,9 @@ import { AppController } from './services/AppController';
 import { HomeView } from './ui/HomeView';
 import { PairingView } from './ui/PairingView';
 import { SettingsView } from './ui/SettingsView';
+import { RecordingsView } from './ui/RecordingsView';
 
-type ViewMode = 'home' | 'pairing' | 'settings';
+type ViewMode = 'home' | 'pairing' | 'settings' | 'recordings';
 
 export default function App() {
   console.log('🚀 App component rendering...');
@@ -73,6 +74,10 @@ export default function App() {
     setCurrentView('settings');
   };
 
+  const handleRecordingsPress = () => {
+    setCurrentView('recordings');
+  };
+
   const handleBackToHome = () => {
     setCurrentView('home');
   };
@@ -98,7 +103,9 @@ export default function App() {
 
   console.log('🚨 Render - isLoading:', isLoading, 'controllerRef.current:', !!controllerRef.current, 'error:', error);
 
-  if (isLoading) {
+  const controller = controllerRef.current;
+
+  if (isLoading || !controller) {
     return (
       <SafeAreaProvider>
         <SafeAreaView style={[styles.container, { padding: 20, justifyContent: 'center' }]}>
@@ -118,13 +125,19 @@ export default function App() {
         
         {currentView === 'home' ? (
           <HomeView
-            controller={controllerRef.current}
+            controller={controller}
             onPairingPress={handlePairingPress}
             onSettingsPress={handleSettingsPress}
+            onRecordingsPress={handleRecordingsPress}
           />
         ) : currentView === 'pairing' ? (
           <PairingView
-            controller={controllerRef.current}
+            controller={controller}
+            onBack={handleBackToHome}
+          />
+        ) : currentView === 'recordings' ? (
+          <RecordingsView
+            controller={controller}
             onBack={handleBackToHome}
           />
         ) : (
@@ -0,0 +1,84 @@
+interface TimedSignal {
+  signal: AbortSignal;
+  timedOut(): boolean; // tells a timeout apart from the caller cancelling
+  clear(): void; // call once the request has finished
+}
+
+// Aborts when the parent signal does or when the timeout passes, whichever comes first
+function withTimeout(timeoutMs: number, parent?: AbortSignal): TimedSignal {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onParentAbort = () => controller.abort();
+
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort);
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+// A wait between polls that ends early when the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+// Exponential backoff with up to a second of jitter, capped at maxDelay
+export function calculateRetryDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const delay = baseDelay * Math.pow(2, attempt) + Math.random() * 1000;
+  return Math.min(delay, maxDelay);
+}
+
+// Short time-ordered id for queue items, recordings and bookmarks
+export function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
+
+// fetch that gives up after timeoutMs. A timeout rejects with a readable message; check the
+// caller's own signal to tell a cancel apart.
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  const request = withTimeout(timeoutMs, signal);
+  try {
+    return await fetch(url, { ...init, signal: request.signal });
+  } catch (error) {
+    if (request.timedOut()) {
+      throw new Error(`No answer within ${Math.round(timeoutMs / 1000)} seconds`);
+    }
+    throw error;
+  } finally {
+    request.clear();
+  }
+}
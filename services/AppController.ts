@@ -1,17 +1,58 @@
-import { RecorderService, RecorderCallback } from './RecorderService';
+import {
+  RecorderService,
+  RecorderCallback,
+  RecorderEvents,
+  RecordingDetails,
+  RecordingSession,
+  StopReason,
+  LimitReason,
+  InputLevelWarning,
+} from './RecorderService';
 import { FlicService, FlicEvents, ClickType } from './FlicService';
-import { UploadQueue } from './UploadQueue';
-import { TranscriptionService } from './TranscriptionService';
+import { UploadQueue, UploadItem, UploadQueueEvents } from './UploadQueue';
+import { RecordingStore, RecordingEntry, NewRecordingEntry } from './RecordingStore';
+import { BookmarkExcerpt, DEFAULT_EXCERPT_WINDOW, ExcerptWindow, buildExcerpts } from './Excerpts';
+import { SpeakerNames, SpeakerTurn, groupSpeakerTurns, hasSpeakers } from './Speakers';
+import { applyCorrections, loadCorrections } from './Vocabulary';
+import { SummaryService, TranscriptSummary, isLocalBaseUrl, loadSummarySettings } from './SummaryService';
+import { loadLocalOnly } from './TranscriptionProviders';
+import { ExportDestination, ExportService } from './ExportService';
+import { EXPORT_FORMATS, ExportFormat } from './TranscriptFormats';
+import { Bookmark, BookmarkOptions, normalizeBookmarks } from './Bookmarks';
+import { TranscriptionResult, TranscriptionService, TranscriptSegment } from './TranscriptionService';
+import { TranscriptionJob, TranscriptionQueue, TranscriptionQueueEvents } from './TranscriptionQueue';
+import {
+  BUDGET_WARNING_RATIO,
+  NewUsageEntry,
+  UsageEntry,
+  UsageLedger,
+  UsageLedgerEvents,
+  UsageSummary,
+  formatCost,
+  loadBudgetSettings,
+} from './UsageLedger';
 import { Alert, Vibration } from 'react-native';
 import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 export interface AppState {
   isRecording: boolean;
+  isPaused: boolean;
+  isInterrupted: boolean;
+  inputLevel?: number; // live microphone level in dBFS while recording
   isFlicConnected: boolean;
   killSwitchEnabled: boolean;
+  preRollEnabled: boolean;
+  isBuffering: boolean;
   lastRecordingUri?: string;
   lastRecordingDuration?: number;
+  lastRecordingBookmarks?: Bookmark[];
   lastTranscription?: string;
+  lastTranscriptionLanguage?: string;
+  lastTranscriptTurns?: SpeakerTurn[]; // only when the provider separated speakers
+  lastRecordingSummary?: TranscriptSummary;
+  isSummarizing: boolean;
+  lastRecordingExcerpts?: BookmarkExcerpt[];
   isTranscribing: boolean;
   uploadQueueCount: number;
 }
@@ -20,20 +61,35 @@ export interface AppStateListener {
   onStateChange(state: AppState): void;
 }
 
-export class AppController implements FlicEvents {
-  private recorder: RecorderService;
-  private flic: FlicService;
-  private uploader: UploadQueue;
-  private transcription: TranscriptionService;
+export class AppController
+  implements FlicEvents, RecorderEvents, UploadQueueEvents, TranscriptionQueueEvents, UsageLedgerEvents {
+  private recorder!: RecorderService;
+  private flic!: FlicService;
+  private uploader!: UploadQueue;
+  private transcription!: TranscriptionService;
+  private usage!: UsageLedger;
+  private transcriptionQueue!: TranscriptionQueue;
+  private summary!: SummaryService;
+  private exporter!: ExportService;
+  private store!: RecordingStore;
   private listeners: AppStateListener[] = [];
   private state: AppState;
+  private lastRecordingSegments: string[] = [];
+  private lastRecordingSegmentOffsets: number[] = [];
+  private lastTranscriptSegments: TranscriptSegment[] = [];
+  private lastRecordingId?: string;
 
   constructor() {
     this.state = {
       isRecording: false,
+      isPaused: false,
+      isInterrupted: false,
       isFlicConnected: false,
       killSwitchEnabled: false,
+      preRollEnabled: false,
+      isBuffering: false,
       isTranscribing: false,
+      isSummarizing: false,
       uploadQueueCount: 0,
     };
 
@@ -46,7 +102,12 @@ export class AppController implements FlicEvents {
     this.initRecorderService();
     this.initFlicService();
     this.initUploadService();
+    this.initUsageLedger();
     this.initTranscriptionService();
+    this.initTranscriptionQueue();
+    this.initSummaryService();
+    this.initExportService();
+    this.initRecordingStore();
     
     // Setup services if all initialized successfully
     this.setupServices();
@@ -60,12 +121,21 @@ export class AppController implements FlicEvents {
       console.error('❌ RecorderService init failed:', error);
       // Create minimal fallback
       this.recorder = {
+        setDelegate: () => {},
         start: async () => false,
         stop: (callback) => callback?.(undefined, []),
+        pause: async () => false,
+        resume: async () => false,
         mark: () => {},
         cleanup: async () => {},
+        startBuffering: async () => false,
+        stopBuffering: async () => {},
+        isBuffering: false,
         isRecording: false,
-        getDurationMillis: async () => 0
+        isPaused: false,
+        getDurationMillis: async () => 0,
+        getUnfinishedSession: async () => null,
+        discardUnfinishedSession: async () => {}
       } as any;
     }
   }
@@ -95,16 +165,38 @@ export class AppController implements FlicEvents {
       // Create minimal fallback
       this.uploader = {
         enqueue: () => '',
-        getQueueStatus: async () => ({ pending: 0, uploading: 0, completed: 0, failed: 0, total: 0 }),
+        getQueueStatus: async () => ({ pending: 0, uploading: 0, completed: 0, failed: 0, cancelled: 0, total: 0 }),
         retryFailed: async () => {},
+        updateBookmark: async () => null,
+        setDelegate: () => {},
+        getItems: async () => [],
+        setExcerpts: async () => false,
+        setSummary: async () => false,
+        cancelAll: async () => 0,
+        remove: async () => false,
         clearCompleted: async () => 0
       } as any;
     }
   }
 
+  private initUsageLedger() {
+    try {
+      this.usage = new UsageLedger();
+      console.log('✅ UsageLedger initialized');
+    } catch (error) {
+      console.error('❌ UsageLedger init failed:', error);
+      // Create minimal fallback
+      this.usage = {
+        setDelegate: () => {},
+        record: async (entry: NewUsageEntry) => ({ ...entry, id: '', createdAt: Date.now() }),
+        getMonthlySummary: async () => ({ month: '', jobs: 0, minutes: 0, cost: 0, fallbacks: 0, byProvider: {} })
+      } as any;
+    }
+  }
+
   private initTranscriptionService() {
     try {
-      this.transcription = new TranscriptionService();
+      this.transcription = new TranscriptionService(this.usage);
       console.log('✅ TranscriptionService initialized');
     } catch (error) {
       console.error('❌ TranscriptionService init failed:', error);
@@ -119,18 +211,103 @@ export class AppController implements FlicEvents {
     }
   }
 
+  private initTranscriptionQueue() {
+    try {
+      this.transcriptionQueue = new TranscriptionQueue(this.transcription);
+      console.log('✅ TranscriptionQueue initialized');
+    } catch (error) {
+      console.error('❌ TranscriptionQueue init failed:', error);
+      // Create minimal fallback
+      this.transcriptionQueue = {
+        setDelegate: () => {},
+        enqueue: async () => '',
+        retryFailed: async () => {},
+        cancel: async () => false,
+        getJobs: async () => [],
+        getJobForRecording: () => undefined,
+      } as any;
+    }
+  }
+
+  private initSummaryService() {
+    try {
+      this.summary = new SummaryService();
+      console.log('✅ SummaryService initialized');
+    } catch (error) {
+      console.error('❌ SummaryService init failed:', error);
+      // Create minimal fallback
+      this.summary = {
+        summarize: async () => {
+          throw new Error('Summary service not available');
+        }
+      } as any;
+    }
+  }
+
+  private initExportService() {
+    try {
+      this.exporter = new ExportService();
+      console.log('✅ ExportService initialized');
+    } catch (error) {
+      console.error('❌ ExportService init failed:', error);
+      // Create minimal fallback
+      this.exporter = {
+        saveToDocuments: async () => {
+          throw new Error('Export service not available');
+        },
+        share: async () => {
+          throw new Error('Export service not available');
+        }
+      } as any;
+    }
+  }
+
+  private initRecordingStore() {
+    try {
+      this.store = new RecordingStore();
+      console.log('✅ RecordingStore initialized');
+    } catch (error) {
+      console.error('❌ RecordingStore init failed:', error);
+      // Create minimal fallback
+      this.store = {
+        add: async (entry: NewRecordingEntry) => ({ ...entry, id: '', createdAt: Date.now() }),
+        update: async () => null,
+        remove: async () => false,
+        getAll: async () => [],
+        get: async () => undefined,
+        syncUploadStatus: async () => {},
+        migrateFromUploadQueue: async () => 0
+      } as any;
+    }
+  }
+
   private setupServices(): void {
     try {
       // Connect Flic service
       if (this.flic && this.flic.setDelegate) {
         this.flic.setDelegate(this);
       }
+
+      // Receive recorder events such as silence auto-stop
+      this.recorder.setDelegate(this);
+
+      // Keep the recording library in step with uploads
+      this.uploader.setDelegate(this);
+      this.transcriptionQueue.setDelegate(this);
+      this.usage.setDelegate(this);
+      this.migrateRecordingHistory().catch(console.error);
       
       // Setup notifications
       this.setupNotifications();
       
       // Update upload queue count
       this.updateUploadQueueCount().catch(console.error);
+
+      // Offer to recover a recording interrupted by a crash or kill
+      this.checkForUnfinishedRecording().catch(console.error);
+
+      // Resume the always-listening buffer if it was left on
+      this.loadPreRollSetting().catch(console.error);
       
       console.log('✅ All services setup completed');
     } catch (error) {
@@ -176,9 +353,7 @@ export class AppController implements FlicEvents {
     } else {
       // Add bookmark if already recording
       console.log('📍 Adding bookmark from Flic single click');
-      this.recorder.mark();
-      this.notify('Bookmark added', '📍');
-      this.hapticFeedback();
+      this.addBookmark({ source: 'flic' });
     }
   }
 
@@ -200,6 +375,21 @@ export class AppController implements FlicEvents {
     }
   }
 
+  onTripleClick(): void {
+    console.log('🔘🔘🔘 Flic: Triple click received');
+
+    if (this.state.killSwitchEnabled) {
+      console.log('Triple click ignored - kill switch enabled');
+      return;
+    }
+
+    if (this.recorder.isRecording) {
+      this.togglePause();
+    } else {
+      this.notify('Triple click - not recording', '⚠️');
+    }
+  }
+
   onHold(): void {
     if (this.state.killSwitchEnabled) {
       console.log('Hold ignored - kill switch enabled');
@@ -214,6 +404,124 @@ export class AppController implements FlicEvents {
     }
   }
 
+  // RecorderEvents implementation
+  onSilenceTimeout(): void {
+    if (!this.recorder.isRecording) return;
+
+    console.log('🤫 Silence timeout reached - stopping recording');
+    this.notify('Stopped after silence', '🤫');
+    this.stopAndSaveRecording('silence');
+  }
+
+  onRecordingLimitWarning(reason: LimitReason, remaining: number): void {
+    if (reason === 'maxDuration') {
+      this.notify(`Recording stops in ${Math.ceil(remaining / 60)} min (max duration)`, '⏳');
+    } else {
+      this.notify(`Storage almost full - ${Math.round(remaining)} MB left before recording stops`, '💽');
+    }
+  }
+
+  onRecordingLimitReached(reason: LimitReason): void {
+    if (!this.recorder.isRecording) return;
+
+    console.log(`🛑 Recording limit reached (${reason}) - stopping recording`);
+    this.notify(reason === 'maxDuration' ? 'Max duration reached - saving' : 'Storage low - saving', '🛑');
+    this.stopAndSaveRecording(reason);
+  }
+
+  onRecordingFailed(): void {
+    // Not awaited: stop() waits for the failed rotation to finish first
+    console.log('❌ Recorder failed - saving the segments written so far');
+    this.notify('Recording failed - saving what was recorded', '❌');
+    this.stopAndSaveRecording('error');
+  }
+
+  onInterruptionChange(interrupted: boolean): void {
+    this.state.isInterrupted = interrupted;
+    this.notifyStateChange();
+
+    if (interrupted) {
+      this.notify('Recording interrupted - will resume automatically', '📞');
+    } else {
+      this.notify('Recording resumed after interruption', '🎙️');
+    }
+  }
+
+  onInputLevel(level: number): void {
+    this.state.inputLevel = level;
+    this.notifyStateChange();
+  }
+
+  onInputLevelWarning(warning: InputLevelWarning): void {
+    if (warning === 'muted') {
+      this.notify('No sound from the microphone - is it muted or covered?', '🔇');
+    } else {
+      this.notify('Input is clipping - move the phone away from the source', '📢');
+    }
+  }
+
+  // TranscriptionQueueEvents implementation
+  onTranscriptionStatusChange(job: TranscriptionJob): void {
+    this.store.update(job.recordingId, { transcriptionStatus: job.status }).catch(console.error);
+
+    if (job.recordingId === this.lastRecordingId) {
+      this.state.isTranscribing = job.status === 'pending' || job.status === 'transcribing';
+      this.notifyStateChange();
+    }
+
+    if (job.status === 'failed') {
+      this.notify(`Transcription failed: ${job.error || 'Unknown error'}`, '❌');
+      console.error('❌ Transcription error:', job.error);
+    } else if (job.status === 'cancelled') {
+      this.notify('Transcription cancelled', '⏹️');
+    }
+  }
+
+  onTranscriptionComplete(job: TranscriptionJob, result: TranscriptionResult): void {
+    this.saveTranscription(job.recordingId, result).catch(console.error);
+  }
+
+  // UsageLedgerEvents implementation
+  onUsageRecorded(entry: UsageEntry, summary: UsageSummary): void {
+    this.checkBudget(entry, summary).catch(console.error);
+  }
+
+  // Warns once when spending crosses the warning ratio and once when it passes the budget
+  private async checkBudget(entry: UsageEntry, summary: UsageSummary): Promise<void> {
+    const { monthlyBudget, pauseWhenExceeded } = await loadBudgetSettings();
+    if (monthlyBudget <= 0) return;
+
+    const before = summary.cost - entry.estimatedCost;
+    const warnAt = monthlyBudget * BUDGET_WARNING_RATIO;
+    if (before < monthlyBudget && summary.cost >= monthlyBudget) {
+      this.notify(
+        `Transcription budget of ${formatCost(monthlyBudget)} used up (${formatCost(summary.cost)})` +
+          (pauseWhenExceeded ? ' - automatic transcription paused' : ''),
+        '💸'
+      );
+    } else if (before < warnAt && summary.cost >= warnAt) {
+      this.notify(
+        `Transcription spend at ${Math.round((summary.cost / monthlyBudget) * 100)}% of the ${formatCost(monthlyBudget)} monthly budget`,
+        '💰'
+      );
+    }
+  }
+
+  async isAutoTranscriptionPaused(): Promise<boolean> {
+    const { monthlyBudget, pauseWhenExceeded } = await loadBudgetSettings();
+    if (!pauseWhenExceeded || monthlyBudget <= 0) {
+      return false;
+    }
+    const summary = await this.usage.getMonthlySummary();
+    return summary.cost >= monthlyBudget;
+  }
+
+  // UploadQueueEvents implementation
+  onUploadStatusChange(item: UploadItem): void {
+    this.store.syncUploadStatus(item.id, item.status).catch(console.error);
+    this.updateUploadQueueCount().catch(console.error);
+  }
+
   onConnectionChange(connected: boolean): void {
     this.state.isFlicConnected = connected;
     this.notifyStateChange();
@@ -231,6 +539,7 @@ export class AppController implements FlicEvents {
       const success = await this.recorder.start();
       if (success) {
         this.state.isRecording = true;
+        this.state.isBuffering = false;
         this.notifyStateChange();
         this.notify('Recording started', '🎤');
         this.hapticFeedback();
@@ -246,49 +555,385 @@ export class AppController implements FlicEvents {
     }
   }
 
+  async pauseRecording(): Promise<boolean> {
+    const success = await this.recorder.pause();
+    if (success) {
+      this.state.isPaused = true;
+      this.notifyStateChange();
+      this.notify('Recording paused', '⏸️');
+      this.hapticFeedback();
+    }
+    return success;
+  }
+
+  async resumeRecording(): Promise<boolean> {
+    const success = await this.recorder.resume();
+    if (success) {
+      this.state.isPaused = false;
+      this.notifyStateChange();
+      this.notify('Recording resumed', '▶️');
+      this.hapticFeedback();
+    }
+    return success;
+  }
+
+  async togglePause(): Promise<boolean> {
+    return this.recorder.isPaused ? this.resumeRecording() : this.pauseRecording();
+  }
+
+  addBookmark(options?: BookmarkOptions): Bookmark | null {
+    const bookmark = this.recorder.mark(options);
+    if (!bookmark) {
+      return null;
+    }
+
+    if (bookmark.kind === 'flagged') {
+      this.notify('Moment flagged', '🚩');
+    } else {
+      this.notify('Bookmark added', '📍');
+    }
+    this.hapticFeedback();
+    return bookmark;
+  }
+
   async stopRecording(): Promise<string | undefined> {
-    return new Promise((resolve) => {
-      this.recorder.stop((uri, bookmarks) => {
-        console.log('Recording stopped, URI:', uri);
-        this.state.isRecording = false;
-        this.state.lastRecordingUri = uri;
-        this.notifyStateChange();
-        resolve(uri);
-      });
+    const { uri } = await this.stopRecorder();
+    return uri;
+  }
+
+  private async stopRecorder(): Promise<{
+    uri?: string;
+    recordingId?: string;
+    bookmarks: Bookmark[];
+    details: RecordingDetails;
+  }> {
+    let result: { uri?: string; recordingId?: string; bookmarks: Bookmark[]; details: RecordingDetails } = {
+      bookmarks: [],
+      details: {
+        segments: [],
+        segmentOffsets: [],
+        silentRanges: [],
+        profile: this.recorder.profile,
+        preRollSeconds: 0,
+        interruptions: [],
+      },
+    };
+
+    const durationMillis = await this.recorder.getDurationMillis();
+    await this.recorder.stop((uri, bookmarks, details) => {
+      console.log('Recording stopped, URI:', uri);
+      this.state.isRecording = false;
+      this.state.isPaused = false;
+      this.state.isInterrupted = false;
+      this.state.inputLevel = undefined;
+      this.state.lastRecordingUri = uri;
+      this.state.lastRecordingDuration = durationMillis || undefined;
+      this.state.lastRecordingBookmarks = bookmarks || [];
+      this.state.lastRecordingExcerpts = undefined;
+      this.state.lastTranscriptionLanguage = undefined;
+      this.state.lastTranscriptTurns = undefined;
+      this.state.lastRecordingSummary = undefined;
+      this.lastTranscriptSegments = [];
+      this.lastRecordingId = undefined;
+      this.lastRecordingSegments = details?.segments || (uri ? [uri] : []);
+      this.lastRecordingSegmentOffsets = details?.segmentOffsets || [0];
+      this.notifyStateChange();
+      result = {
+        uri,
+        bookmarks: bookmarks || [],
+        details: details || {
+          ...result.details,
+          segments: this.lastRecordingSegments,
+          segmentOffsets: this.lastRecordingSegmentOffsets,
+        },
+      };
     });
+
+    // Every recording is cataloged, whether or not it gets uploaded
+    if (result.uri) {
+      const entry = await this.store.add({
+        path: result.uri,
+        segments: result.details.segments.length > 1 ? result.details.segments : undefined,
+        segmentOffsets: result.details.segments.length > 1 ? result.details.segmentOffsets : undefined,
+        durationMillis: durationMillis || undefined,
+        bookmarks: result.bookmarks,
+        flagged: false,
+      });
+      this.lastRecordingId = entry.id;
+      result.recordingId = entry.id;
+    }
+
+    // The recorder is free again, so go back to listening
+    await this.startPreRollBuffer();
+    return result;
   }
 
-  private async stopAndSaveRecording(): Promise<void> {
-    const uri = await this.stopRecording();
+  private async stopAndSaveRecording(stopReason: StopReason = 'user'): Promise<void> {
+    const { uri, recordingId, bookmarks, details } = await this.stopRecorder();
     if (uri) {
-      this.recorder.stop(async (fileUri, bookmarks) => {
-        if (fileUri) {
-          this.uploader.enqueue(fileUri, bookmarks || [], false);
-          this.updateUploadQueueCount();
-          this.notify('Recording saved', '💾');
-          this.hapticFeedback(2);
-          
-          // Start transcription
-          await this.transcribeRecording(fileUri);
-        }
-      });
+      const uploadId = await this.uploader.enqueue(uri, bookmarks, false, { ...details, stopReason });
+      await this.linkUpload(recordingId, uploadId, false);
+      this.updateUploadQueueCount();
+      this.notify('Recording saved', '💾');
+      this.hapticFeedback(2);
+
+      // Start transcription
+      await this.autoTranscribeRecording(details.segments, recordingId, details.segmentOffsets);
     }
   }
 
   private async stopAndFlagRecording(): Promise<void> {
-    const uri = await this.stopRecording();
+    const { uri, recordingId, bookmarks, details } = await this.stopRecorder();
     if (uri) {
-      this.recorder.stop(async (fileUri, bookmarks) => {
-        if (fileUri) {
-          this.uploader.enqueue(fileUri, bookmarks || [], true);
-          this.updateUploadQueueCount();
-          this.notify('Recording flagged', '🚩');
-          this.hapticFeedback(3);
-          
-          // Start transcription
-          await this.transcribeRecording(fileUri);
-        }
+      const uploadId = await this.uploader.enqueue(uri, bookmarks, true, { ...details, stopReason: 'user' });
+      await this.linkUpload(recordingId, uploadId, true);
+      this.updateUploadQueueCount();
+      this.notify('Recording flagged', '🚩');
+      this.hapticFeedback(3);
+
+      // Start transcription
+      await this.autoTranscribeRecording(details.segments, recordingId, details.segmentOffsets);
+    }
+  }
+
+  private async linkUpload(recordingId: string | undefined, uploadId: string, flagged: boolean): Promise<void> {
+    if (recordingId) {
+      await this.store.update(recordingId, { uploadId, uploadStatus: 'pending', flagged });
+    }
+  }
+
+  // Recording library
+  async getRecordings(): Promise<RecordingEntry[]> {
+    return await this.store.getAll();
+  }
+
+  async getRecording(id: string): Promise<RecordingEntry | undefined> {
+    return await this.store.get(id);
+  }
+
+  // Removes the recording everywhere: its queued work, its catalog entry and its audio files
+  async deleteRecording(id: string): Promise<boolean> {
+    const recording = await this.store.get(id);
+    if (!recording) return false;
+
+    await this.transcriptionQueue.cancel(id);
+    if (recording.uploadId) {
+      await this.uploader.remove(recording.uploadId);
+      this.updateUploadQueueCount();
+    }
+    await this.store.remove(id);
+
+    if (id === this.lastRecordingId) {
+      this.lastRecordingId = undefined;
+      this.lastRecordingSegments = [];
+      this.lastRecordingSegmentOffsets = [];
+      this.lastTranscriptSegments = [];
+      this.state = {
+        ...this.state,
+        lastRecordingUri: undefined,
+        lastRecordingDuration: undefined,
+        lastRecordingBookmarks: undefined,
+        lastRecordingExcerpts: undefined,
+        lastRecordingSummary: undefined,
+        lastTranscription: undefined,
+        lastTranscriptionLanguage: undefined,
+        lastTranscriptTurns: undefined,
+      };
+      this.notifyStateChange();
+    }
+
+    this.notify('Recording deleted', '🗑️');
+    return true;
+  }
+
+  async setRecordingTags(id: string, tags: string[]): Promise<void> {
+    const cleaned = Array.from(new Set(tags.map(tag => tag.trim()).filter(tag => tag.length > 0)));
+    await this.store.update(id, { tags: cleaned.length ? cleaned : undefined });
+  }
+
+  // Undefined goes back to the default language from Settings
+  async setRecordingLanguage(id: string, language?: string): Promise<void> {
+    await this.store.update(id, { language });
+  }
+
+  // An empty name goes back to the provider's label
+  async setSpeakerName(recordingId: string, speaker: string, name: string): Promise<void> {
+    const recording = await this.store.get(recordingId);
+    if (!recording) return;
+
+    const speakerNames: SpeakerNames = { ...recording.speakerNames };
+    if (name.trim()) {
+      speakerNames[speaker] = name.trim();
+    } else {
+      delete speakerNames[speaker];
+    }
+    await this.store.update(recordingId, {
+      speakerNames: Object.keys(speakerNames).length ? speakerNames : undefined,
+    });
+
+    if (recordingId === this.lastRecordingId) {
+      this.state.lastTranscriptTurns = this.buildSpeakerTurns(this.lastTranscriptSegments, speakerNames);
+      this.notifyStateChange();
+    }
+  }
+
+  private buildSpeakerTurns(segments: TranscriptSegment[], names?: SpeakerNames): SpeakerTurn[] | undefined {
+    return hasSpeakers(segments) ? groupSpeakerTurns(segments, names) : undefined;
+  }
+
+  private async migrateRecordingHistory(): Promise<void> {
+    const items = await this.uploader.getItems();
+    await this.store.migrateFromUploadQueue(items);
+  }
+
+  // Bookmark editing for the last recording
+  async updateBookmark(bookmarkId: string, changes: Partial<Omit<Bookmark, 'id'>>): Promise<void> {
+    if (this.lastRecordingId) {
+      await this.updateRecordingBookmark(this.lastRecordingId, bookmarkId, changes);
+    }
+  }
+
+  // Bookmark editing for any recording in the library
+  async updateRecordingBookmark(
+    recordingId: string,
+    bookmarkId: string,
+    changes: Partial<Omit<Bookmark, 'id'>>
+  ): Promise<void> {
+    const recording = await this.store.get(recordingId);
+    if (!recording) return;
+
+    const bookmarks = normalizeBookmarks(
+      recording.bookmarks.map(bookmark => bookmark.id === bookmarkId ? { ...bookmark, ...changes } : bookmark)
+    );
+    const updated = await this.store.update(recordingId, { bookmarks });
+    if (recording.uploadId) {
+      await this.uploader.updateBookmark(recording.uploadId, bookmarkId, changes);
+    }
+    if (updated?.transcriptSegments?.length) {
+      await this.updateExcerpts(updated);
+    }
+
+    if (recordingId === this.lastRecordingId) {
+      this.state.lastRecordingBookmarks = bookmarks;
+      this.notifyStateChange();
+    }
+  }
+
+  // Text spoken around each bookmark; the upload queue sends it as a metadata update if the audio is already up
+  private async updateExcerpts(recording: RecordingEntry): Promise<void> {
+    const excerpts = buildExcerpts(
+      recording.bookmarks,
+      recording.transcriptSegments || [],
+      await this.loadExcerptWindow()
+    );
+
+    await this.store.update(recording.id, { excerpts: excerpts.length ? excerpts : undefined });
+    if (recording.uploadId) {
+      await this.uploader.setExcerpts(recording.uploadId, excerpts);
+    }
+    if (recording.id === this.lastRecordingId) {
+      this.state.lastRecordingExcerpts = excerpts.length ? excerpts : undefined;
+    }
+  }
+
+  private async loadExcerptWindow(): Promise<ExcerptWindow> {
+    try {
+      const before = await AsyncStorage.getItem('excerpt_before_seconds');
+      const after = await AsyncStorage.getItem('excerpt_after_seconds');
+      return {
+        beforeSeconds: before !== null ? Number(before) || 0 : DEFAULT_EXCERPT_WINDOW.beforeSeconds,
+        afterSeconds: after !== null ? Number(after) || 0 : DEFAULT_EXCERPT_WINDOW.afterSeconds,
+      };
+    } catch (error) {
+      console.error('Failed to load excerpt window:', error);
+      return DEFAULT_EXCERPT_WINDOW;
+    }
+  }
+
+  // Pre-roll buffer
+  async setPreRollEnabled(enabled: boolean): Promise<void> {
+    this.state.preRollEnabled = enabled;
+    this.notifyStateChange();
+
+    try {
+      await AsyncStorage.setItem('preroll_enabled', enabled ? 'true' : 'false');
+    } catch (error) {
+      console.error('Failed to save pre-roll setting:', error);
+    }
+
+    if (enabled && this.state.killSwitchEnabled) {
+      this.notify('Pre-roll buffer ON, waiting for kill switch OFF', '👂');
+    } else if (enabled) {
+      await this.startPreRollBuffer();
+      this.notify(this.state.isBuffering ? 'Pre-roll buffer ON' : 'Pre-roll buffer failed to start', '👂');
+    } else {
+      await this.recorder.stopBuffering();
+      this.state.isBuffering = false;
+      this.notifyStateChange();
+      this.notify('Pre-roll buffer OFF', '🔇');
+    }
+  }
+
+  private async loadPreRollSetting(): Promise<void> {
+    const saved = await AsyncStorage.getItem('preroll_enabled');
+    if (saved === 'true') {
+      this.state.preRollEnabled = true;
+      await this.startPreRollBuffer();
+    }
+  }
+
+  // The kill switch keeps the mic closed, buffer included
+  private async startPreRollBuffer(): Promise<void> {
+    if (!this.state.preRollEnabled || this.state.killSwitchEnabled || this.recorder.isRecording) return;
+
+    this.state.isBuffering = await this.recorder.startBuffering();
+    this.notifyStateChange();
+  }
+
+  // Crash recovery
+  private async checkForUnfinishedRecording(): Promise<void> {
+    const session = await this.recorder.getUnfinishedSession();
+    if (!session) return;
+
+    const startedAt = new Date(session.startedAt).toLocaleString();
+    Alert.alert(
+      'Unfinished Recording',
+      `A recording started ${startedAt} was interrupted (${session.segments.length} segment${session.segments.length === 1 ? '' : 's'}). Recover it?`,
+      [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => this.recorder.discardUnfinishedSession(true),
+        },
+        { text: 'Recover', onPress: () => this.recoverSession(session) },
+      ]
+    );
+  }
+
+  private async recoverSession(session: RecordingSession): Promise<void> {
+    try {
+      const segments = session.segments.map(segment => segment.uri);
+      const uploadId = await this.uploader.enqueue(segments[0], session.bookmarks, false, {
+        segments,
+        preRollSeconds: session.preRollSeconds,
+        interruptions: session.interruptions,
+      });
+      await this.store.add({
+        path: segments[0],
+        segments: segments.length > 1 ? segments : undefined,
+        segmentOffsets: segments.length > 1 ? session.segments.map(segment => segment.startOffset) : undefined,
+        bookmarks: session.bookmarks,
+        flagged: false,
+        uploadId,
+        uploadStatus: 'pending',
+        createdAt: session.startedAt,
       });
+      await this.recorder.discardUnfinishedSession();
+      this.updateUploadQueueCount();
+      this.notify('Recovered unfinished recording', '🩹');
+    } catch (error) {
+      console.error('Recording recovery failed:', error);
+      this.notify('Failed to recover recording', '❌');
     }
   }
 
@@ -312,8 +957,14 @@ export class AppController implements FlicEvents {
       if (this.recorder.isRecording) {
         this.stopRecording();
       }
+      if (this.recorder.isBuffering) {
+        this.recorder.stopBuffering().catch(console.error);
+        this.state.isBuffering = false;
+        this.notifyStateChange();
+      }
     } else {
       this.notify('Kill switch OFF', '✅');
+      this.startPreRollBuffer().catch(console.error);
     }
   }
 
@@ -324,6 +975,12 @@ export class AppController implements FlicEvents {
     this.notify('Retrying failed uploads', '🔄');
   }
 
+  async cancelUploads(): Promise<void> {
+    const cancelled = await this.uploader.cancelAll();
+    this.updateUploadQueueCount();
+    this.notify(cancelled > 0 ? `Cancelled ${cancelled} uploads` : 'Nothing to cancel', '⏹️');
+  }
+
   async clearCompletedUploads(): Promise<void> {
     const cleared = await this.uploader.clearCompleted();
     this.updateUploadQueueCount();
@@ -337,47 +994,202 @@ export class AppController implements FlicEvents {
   }
 
   // Transcription methods
-  private async transcribeRecording(fileUri: string): Promise<void> {
-    if (!fileUri) {
+  // Transcription runs in the background queue so it survives restarts and network loss
+  private async transcribeRecording(
+    fileUris: string[],
+    recordingId?: string,
+    segmentOffsets: number[] = [],
+    language?: string,
+    manual = false
+  ): Promise<void> {
+    if (fileUris.length === 0) {
       console.error('No file URI provided for transcription');
       return;
     }
+    if (!recordingId) {
+      console.error('No recording to attach the transcription to');
+      return;
+    }
 
-    try {
-      console.log('=== STARTING TRANSCRIPTION ===');
-      console.log('File URI:', fileUri);
-      
-      this.state.isTranscribing = true;
+    console.log('Queueing transcription for:', fileUris);
+    const jobId = await this.transcriptionQueue.enqueue(recordingId, fileUris, segmentOffsets, language, manual);
+    if (jobId === null) {
+      this.notify('Already transcribing - cancel it first to start over', '⚠️');
+      return;
+    }
+    this.notify('Transcribing audio...', '🎯');
+  }
+
+  // New recordings are skipped once the budget is used up, if Settings says so;
+  // they can still be transcribed by hand from Recordings
+  private async autoTranscribeRecording(fileUris: string[], recordingId?: string, segmentOffsets: number[] = []): Promise<void> {
+    if (await this.isAutoTranscriptionPaused()) {
+      this.notify('Monthly transcription budget reached - transcribe from Recordings', '💸');
+      return;
+    }
+    await this.transcribeRecording(fileUris, recordingId, segmentOffsets);
+  }
+
+  private async saveTranscription(recordingId: string, rawResult: TranscriptionResult): Promise<void> {
+    console.log('Transcription result:', rawResult);
+    // Fix known mis-transcriptions before anything stores or shows the text
+    const result = applyCorrections(rawResult, await loadCorrections());
+
+    if (!result.text.trim()) {
+      this.notify('Transcription returned empty result', '❌');
+      console.error('❌ Transcription returned empty result');
+      return;
+    }
+
+    const segments: TranscriptSegment[] = result.segments || [];
+    const recording = await this.store.update(recordingId, {
+      transcript: result.text,
+      transcriptSegments: segments.length ? segments : undefined,
+      detectedLanguage: result.language,
+    });
+
+    if (recording) {
+      await this.updateExcerpts(recording);
+    }
+    if (recordingId === this.lastRecordingId) {
+      this.state.lastTranscription = result.text;
+      this.state.lastTranscriptionLanguage = result.language;
+      this.state.lastTranscriptTurns = this.buildSpeakerTurns(segments, recording?.speakerNames);
+      this.lastTranscriptSegments = segments;
       this.notifyStateChange();
-      this.notify('Transcribing audio...', '🎯');
-
-      const result = await this.transcription.transcribeAudio(fileUri, 'openai');
-      console.log('Transcription result:', result);
-
-      if (result.text && result.text.trim()) {
-        this.state.lastTranscription = result.text;
-        this.notify(`Transcription: ${result.text.substring(0, 50)}${result.text.length > 50 ? '...' : ''}`, '📝');
-        console.log('✅ Transcription completed successfully:', result.text);
-      } else if (result.error) {
-        this.notify(`Transcription failed: ${result.error}`, '❌');
-        console.error('❌ Transcription error:', result.error);
-      } else {
-        this.notify('Transcription returned empty result', '❌');
-        console.error('❌ Transcription returned empty result');
+    }
+
+    this.notify(`Transcription: ${result.text.substring(0, 50)}${result.text.length > 50 ? '...' : ''}`, '📝');
+    console.log('✅ Transcription completed successfully:', result.text);
+
+    await this.summarizeRecording(recordingId, true);
+  }
+
+  // Summaries are optional; after transcription they only run when turned on in Settings
+  async summarizeRecording(recordingId: string, automatic = false): Promise<void> {
+    const settings = await loadSummarySettings();
+    if (!settings.enabled) {
+      if (!automatic) {
+        this.notify('Summaries are turned off in Settings', '⚠️');
+      }
+      return;
+    }
+
+    if (await loadLocalOnly() && !isLocalBaseUrl(settings.baseUrl)) {
+      // The transcript would leave the network that Local Only keeps the audio on
+      console.log('📋 Skipping summary: Local Only is on and the endpoint is not local');
+      if (!automatic) {
+        this.notify('Local Only is on - point Summaries at a local server', '⚠️');
+      }
+      return;
+    }
+
+    const recording = await this.store.get(recordingId);
+    if (!recording?.transcript) {
+      this.notify('No transcript to summarize', '⚠️');
+      return;
+    }
+
+    const isLast = recordingId === this.lastRecordingId;
+    if (isLast) {
+      this.state.isSummarizing = true;
+      this.notifyStateChange();
+    }
+
+    try {
+      const turns = this.buildSpeakerTurns(recording.transcriptSegments || [], recording.speakerNames);
+      const summary = await this.summary.summarize({
+        transcript: turns ? turns.map(turn => `${turn.name}: ${turn.text}`).join('\n') : recording.transcript,
+        excerpts: recording.excerpts || [],
+        flagged: recording.flagged,
+      }, settings);
+
+      await this.store.update(recordingId, { summary });
+      if (recording.uploadId) {
+        await this.uploader.setSummary(recording.uploadId, summary);
+      }
+      if (isLast) {
+        this.state.lastRecordingSummary = summary;
       }
+      this.notify(`Summary: ${summary.title || 'ready'}`, '📋');
     } catch (error) {
-      console.error('❌ Transcription exception:', error);
-      this.notify(`Transcription failed: ${error}`, '❌');
+      console.error('❌ Summary error:', error);
+      this.notify(`Summary failed: ${error instanceof Error ? error.message : 'Unknown error'}`, '❌');
     } finally {
-      this.state.isTranscribing = false;
-      this.notifyStateChange();
-      console.log('=== TRANSCRIPTION FINISHED ===');
+      if (isLast) {
+        this.state.isSummarizing = false;
+        this.notifyStateChange();
+      }
+    }
+  }
+
+  async exportRecording(recordingId: string, format: ExportFormat, destination: ExportDestination): Promise<void> {
+    const recording = await this.store.get(recordingId);
+    if (!recording?.transcript) {
+      this.notify('No transcript to export', '⚠️');
+      return;
+    }
+
+    try {
+      if (destination === 'share') {
+        await this.exporter.share(recording, format);
+      } else {
+        const uri = await this.exporter.saveToDocuments(recording, format);
+        this.notify(`Saved ${EXPORT_FORMATS[format].label} to ${uri.split('/').pop()}`, '📄');
+      }
+    } catch (error) {
+      console.error('❌ Export error:', error);
+      this.notify(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`, '❌');
+    }
+  }
+
+  async summarizeLastRecording(): Promise<void> {
+    if (this.lastRecordingId) {
+      await this.summarizeRecording(this.lastRecordingId);
+    } else {
+      this.notify('No recording to summarize', '⚠️');
+    }
+  }
+
+  async retranscribeRecording(recordingId: string): Promise<void> {
+    const recording = await this.store.get(recordingId);
+    if (!recording) {
+      this.notify('Recording not found', '⚠️');
+      return;
+    }
+
+    await this.transcribeRecording(
+      recording.segments || [recording.path],
+      recording.id,
+      recording.segmentOffsets,
+      recording.language,
+      true
+    );
+  }
+
+  async cancelTranscription(recordingId: string): Promise<void> {
+    const cancelled = await this.transcriptionQueue.cancel(recordingId);
+    if (!cancelled) {
+      this.notify('No transcription to cancel', '⚠️');
+    }
+  }
+
+  async cancelLastTranscription(): Promise<void> {
+    if (this.lastRecordingId) {
+      await this.cancelTranscription(this.lastRecordingId);
     }
   }
 
   async retranscribeLastRecording(): Promise<void> {
     if (this.state.lastRecordingUri) {
-      await this.transcribeRecording(this.state.lastRecordingUri);
+      const recording = this.lastRecordingId ? await this.store.get(this.lastRecordingId) : undefined;
+      await this.transcribeRecording(
+        this.lastRecordingSegments,
+        this.lastRecordingId,
+        this.lastRecordingSegmentOffsets,
+        recording?.language,
+        true
+      );
     } else {
       this.notify('No recording to transcribe', '⚠️');
     }
@@ -467,6 +1279,10 @@ export class AppController implements FlicEvents {
     return this.state.isRecording;
   }
 
+  get isPaused(): boolean {
+    return this.state.isPaused;
+  }
+
   get isFlicConnected(): boolean {
     return this.state.isFlicConnected;
   }
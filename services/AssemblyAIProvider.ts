@@ -0,0 +1,256 @@
+import { TranscriptionResult, TranscriptSegment, TranscriptWord } from './TranscriptionService';
+import {
+  ProviderSettings,
+  TranscribeOptions,
+  TranscriptionProvider,
+  cancelledResult,
+  prepareAudioFile,
+} from './TranscriptionProviders';
+import { fetchWithTimeout, sleep } from './Abort';
+import { AUTO_LANGUAGE, normalizeLanguage } from './Languages';
+import { Correction } from './Vocabulary';
+
+// Speaker labels turn the result into utterances; if there are none, long pauses and
+// sentence ends cut the words into segments comparable to Whisper's
+const SEGMENT_PAUSE_SECONDS = 1.5;
+const SEGMENT_MAX_WORDS = 40;
+const MAX_WORD_BOOST = 1000;
+const UPLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const POLL_INTERVAL_MS = 2000;
+// Per attempt; the queue keeps the job id and polls again on its next retry
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+export class AssemblyAIProvider implements TranscriptionProvider {
+  readonly id = 'assemblyai';
+  readonly label = 'AssemblyAI';
+  readonly costPerMinute = 0.0062; // $0.37 per hour
+  readonly settingsSchema = [
+    {
+      key: 'assemblyai_api_key',
+      label: 'AssemblyAI API Key',
+      placeholder: 'ae50cb8101ab4576...',
+      hint: 'Used as backup transcription service',
+      secure: true,
+      required: true,
+    },
+  ];
+
+  async transcribe(audioUri: string, settings: ProviderSettings, options?: TranscribeOptions): Promise<TranscriptionResult> {
+    const apiKey = settings.assemblyai_api_key;
+    const language = options?.language || AUTO_LANGUAGE;
+    const signal = options?.signal;
+    let transcriptId: string | undefined;
+    try {
+      console.log('Starting AssemblyAI transcription for:', audioUri);
+
+      const { file, fileName } = await prepareAudioFile(audioUri);
+
+      // Step 1: Upload audio file
+      const uploadFormData = new FormData();
+      uploadFormData.append('file', file, fileName);
+
+      const uploadResponse = await fetchWithTimeout('https://api.assemblyai.com/v2/upload', {
+        method: 'POST',
+        headers: {
+          'authorization': apiKey,
+        },
+        body: uploadFormData
+      }, UPLOAD_TIMEOUT_MS, signal);
+
+      const uploadResult = await uploadResponse.json();
+      if (!uploadResponse.ok) {
+        throw new Error(`Upload failed: ${uploadResult.error || 'Unknown error'}`);
+      }
+
+      const customSpelling = toCustomSpelling(options?.corrections || []);
+      const audioUrl = uploadResult.upload_url;
+      console.log('Audio uploaded to AssemblyAI:', audioUrl);
+
+      // Step 2: Request transcription
+      const transcriptResponse = await fetchWithTimeout('https://api.assemblyai.com/v2/transcript', {
+        method: 'POST',
+        headers: {
+          'authorization': apiKey,
+          'content-type': 'application/json'
+        },
+        body: JSON.stringify({
+          audio_url: audioUrl,
+          ...(language === AUTO_LANGUAGE ? { language_detection: true } : { language_code: language }),
+          punctuate: true,
+          format_text: true,
+          speaker_labels: true,
+          ...(options?.glossary?.length ? { word_boost: options.glossary.slice(0, MAX_WORD_BOOST) } : {}),
+          ...(customSpelling.length ? { custom_spelling: customSpelling } : {}),
+        })
+      }, REQUEST_TIMEOUT_MS, signal);
+
+      const transcriptResult = await transcriptResponse.json();
+      if (!transcriptResponse.ok) {
+        throw new Error(`Transcription request failed: ${transcriptResult.error || 'Unknown error'}`);
+      }
+
+      transcriptId = transcriptResult.id as string;
+      console.log('AssemblyAI transcription started, ID:', transcriptId);
+      options?.onRemoteJob?.(transcriptId);
+
+      // Step 3: Poll for results
+      return await this.pollResults(transcriptId, apiKey, signal);
+
+    } catch (error) {
+      if (signal?.aborted) {
+        console.log('AssemblyAI transcription cancelled');
+        return cancelledResult(this.id);
+      }
+      console.error('AssemblyAI transcription error:', error);
+      return {
+        text: '',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        // Once the job exists it keeps running (and billing) whether or not we are polling
+        remoteJobPending: transcriptId !== undefined,
+        provider: this.id
+      };
+    }
+  }
+
+  async resume(transcriptId: string, settings: ProviderSettings, options?: TranscribeOptions): Promise<TranscriptionResult> {
+    try {
+      console.log('Resuming AssemblyAI transcription, ID:', transcriptId);
+      return await this.pollResults(transcriptId, settings.assemblyai_api_key, options?.signal);
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        return cancelledResult(this.id);
+      }
+      console.error('AssemblyAI resume error:', error);
+      return {
+        text: '',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        remoteJobPending: true,
+        provider: this.id
+      };
+    }
+  }
+
+  // Stops between polls, or mid-request, as soon as the signal aborts. A failed or unknown job comes back
+  // as an error result; timeouts and network errors throw, since the job may still finish.
+  private async pollResults(
+    transcriptId: string,
+    apiKey: string,
+    signal?: AbortSignal,
+    maxAttempts = Math.ceil(POLL_TIMEOUT_MS / POLL_INTERVAL_MS)
+  ): Promise<TranscriptionResult> {
+    for (let i = 0; i < maxAttempts; i++) {
+      try {
+        const response = await fetchWithTimeout(`https://api.assemblyai.com/v2/transcript/${transcriptId}`, {
+          headers: {
+            'authorization': apiKey
+          }
+        }, REQUEST_TIMEOUT_MS, signal);
+
+        const result = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          const message = `Polling failed: ${result.error || `HTTP ${response.status}`}`;
+          if (isDefiniteFailure(response.status)) {
+            // Unknown or expired job, or a key that no longer works: polling again will not help
+            return { text: '', error: message, provider: this.id };
+          }
+          throw new Error(message);
+        }
+
+        if (result.status === 'completed') {
+          console.log('AssemblyAI transcription completed:', result.text);
+          return {
+            text: result.text || '',
+            confidence: result.confidence,
+            provider: this.id,
+            language: normalizeLanguage(result.language_code),
+            durationSeconds: result.audio_duration,
+            segments: normalizeAssemblyAISegments(result),
+          };
+        } else if (result.status === 'error') {
+          return { text: '', error: `Transcription failed: ${result.error}`, provider: this.id };
+        }
+
+        // Wait 2 seconds before next poll
+        await sleep(POLL_INTERVAL_MS, signal);
+        console.log(`Polling attempt ${i + 1}/${maxAttempts}, status: ${result.status}`);
+
+      } catch (error) {
+        if (signal?.aborted || i === maxAttempts - 1) {
+          throw error;
+        }
+        await sleep(POLL_INTERVAL_MS, signal);
+      }
+    }
+
+    throw new Error('AssemblyAI is still processing - will check again');
+  }
+}
+
+// Client errors other than timeouts and rate limits
+function isDefiniteFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+// AssemblyAI wants every spelling that maps to the same replacement in one entry, and rejects the
+// request when a replacement is more than one word; those are left to the local correction pass
+function toCustomSpelling(corrections: Correction[]): { from: string[]; to: string }[] {
+  const byReplacement = new Map<string, string[]>();
+  corrections.filter(correction => /^\S+$/.test(correction.replace.trim())).forEach(correction => {
+    byReplacement.set(correction.replace, [...(byReplacement.get(correction.replace) || []), correction.find]);
+  });
+  return Array.from(byReplacement, ([to, from]) => ({ from, to }));
+}
+
+// AssemblyAI reports milliseconds; utterances exist only when speaker labels were requested
+function normalizeAssemblyAISegments(result: any): TranscriptSegment[] | undefined {
+  const toWords = (words: any[] = []): TranscriptWord[] => words.map(word => ({
+    start: word.start / 1000,
+    end: word.end / 1000,
+    text: word.text,
+    confidence: word.confidence,
+  }));
+
+  if (Array.isArray(result.utterances) && result.utterances.length > 0) {
+    return result.utterances.map((utterance: any) => ({
+      start: utterance.start / 1000,
+      end: utterance.end / 1000,
+      text: utterance.text,
+      speaker: utterance.speaker || undefined,
+      words: toWords(utterance.words),
+    }));
+  }
+
+  if (!Array.isArray(result.words) || result.words.length === 0) {
+    return undefined;
+  }
+
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptWord[] = [];
+  const flush = () => {
+    if (current.length > 0) {
+      segments.push({
+        start: current[0].start,
+        end: current[current.length - 1].end,
+        text: current.map(word => word.text).join(' '),
+        words: current,
+      });
+      current = [];
+    }
+  };
+
+  toWords(result.words).forEach(word => {
+    const previous = current[current.length - 1];
+    if (previous && word.start - previous.end >= SEGMENT_PAUSE_SECONDS) {
+      flush();
+    }
+    current.push(word);
+    if (/[.!?]$/.test(word.text) || current.length >= SEGMENT_MAX_WORDS) {
+      flush();
+    }
+  });
+  flush();
+
+  return segments;
+}
@@ -0,0 +1,245 @@
+import * as FileSystem from 'expo-file-system';
+import { getAudioFormat } from './RecordingProfiles';
+import { TranscriptionResult, TranscriptSegment } from './TranscriptionService';
+import { scopeSpeakers } from './Speakers';
+
+export interface AudioChunk {
+  uri: string;
+  offset: number; // seconds into the original file where this chunk starts
+  duration: number;
+}
+
+export const DEFAULT_CHUNK_OVERLAP_SECONDS = 5;
+
+// Header of every chunk file. A 2 byte JUNK chunk pads it to 54 bytes, a multiple of three,
+// so its base64 can be joined directly to the base64 of the sample data without decoding it.
+const CHUNK_HEADER_BYTES = 54;
+const HEADER_READ_BYTES = 4096;
+
+interface WavLayout {
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  audioFormat: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+export async function getFileSize(uri: string): Promise<number | undefined> {
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : undefined;
+  } catch (error) {
+    console.error('Failed to read file size:', error);
+    return undefined;
+  }
+}
+
+// Only uncompressed WAV can be cut without re-encoding. Compressed recordings are already
+// kept small by the recorder's segment rotation, so they should never need this.
+export function canSplitAudio(uri: string): boolean {
+  return getAudioFormat(uri).extension === '.wav';
+}
+
+// Cuts a WAV file into overlapping chunks no larger than maxBytes, written to the cache directory
+export async function splitWavFile(
+  uri: string,
+  maxBytes: number,
+  overlapSeconds = DEFAULT_CHUNK_OVERLAP_SECONDS
+): Promise<AudioChunk[]> {
+  const fileSize = await getFileSize(uri);
+  if (!fileSize) {
+    throw new Error('Audio file not found');
+  }
+
+  const layout = parseWavHeader(await readBytes(uri, 0, Math.min(HEADER_READ_BYTES, fileSize)));
+  // Recordings cut short by a crash may never have had their data size filled in
+  const dataLength = Math.min(layout.dataLength || Infinity, fileSize - layout.dataOffset);
+
+  const chunkBytes = alignDown(maxBytes - CHUNK_HEADER_BYTES, layout.blockAlign);
+  const overlapBytes = alignDown(overlapSeconds * layout.byteRate, layout.blockAlign);
+  if (chunkBytes <= overlapBytes) {
+    throw new Error('Chunk size is too small for the requested overlap');
+  }
+
+  const chunkDir = `${FileSystem.cacheDirectory}chunks/`;
+  await FileSystem.makeDirectoryAsync(chunkDir, { intermediates: true });
+  const baseName = uri.split('/').pop()?.replace(/\.wav$/i, '') || 'recording';
+
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < dataLength; start += chunkBytes - overlapBytes) {
+    const length = Math.min(chunkBytes, dataLength - start);
+    const chunkUri = `${chunkDir}${baseName}-chunk${chunks.length + 1}.wav`;
+
+    const data = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: layout.dataOffset + start,
+      length,
+    });
+    await FileSystem.writeAsStringAsync(chunkUri, buildChunkHeader(layout, length) + data, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    chunks.push({ uri: chunkUri, offset: start / layout.byteRate, duration: length / layout.byteRate });
+    if (start + length >= dataLength) break;
+  }
+
+  console.log(`✂️ Split ${uri} into ${chunks.length} chunks`);
+  return chunks;
+}
+
+export async function deleteChunks(chunks: AudioChunk[]): Promise<void> {
+  await Promise.all(chunks.map(chunk =>
+    FileSystem.deleteAsync(chunk.uri, { idempotent: true }).catch(() => {
+      // Cache files are cleaned up by the system eventually
+    })
+  ));
+}
+
+// Joins per-chunk transcripts onto the original file's timeline. Inside each overlap the
+// earlier chunk keeps everything before the midpoint and the later chunk everything after,
+// so words heard in both are kept once.
+export function stitchChunkResults(chunks: AudioChunk[], results: TranscriptionResult[]): TranscriptionResult {
+  const segments: TranscriptSegment[] = [];
+  const texts: string[] = [];
+
+  results.forEach((result, index) => {
+    const chunk = chunks[index];
+    const previous = chunks[index - 1];
+    const next = chunks[index + 1];
+    const from = previous ? (chunk.offset + previous.offset + previous.duration) / 2 : -Infinity;
+    const to = next ? (next.offset + chunk.offset + chunk.duration) / 2 : Infinity;
+
+    if (!result.segments) {
+      // Without timestamps the overlap cannot be trimmed
+      texts.push(result.text.trim());
+      return;
+    }
+
+    const chunkSegments = chunks.length > 1 ? scopeSpeakers(result.segments, index) : result.segments;
+    chunkSegments.forEach(chunkSegment => {
+      const segment = {
+        ...chunkSegment,
+        start: chunkSegment.start + chunk.offset,
+        end: chunkSegment.end + chunk.offset,
+        words: chunkSegment.words?.map(word => ({ ...word, start: word.start + chunk.offset, end: word.end + chunk.offset })),
+      };
+      if (segment.words?.length) {
+        const words = segment.words.filter(word => word.start >= from && word.start < to);
+        if (words.length > 0) {
+          segments.push({
+            start: words[0].start,
+            end: words[words.length - 1].end,
+            text: words.map(word => word.text).join(' '),
+            speaker: segment.speaker,
+            words,
+          });
+        }
+      } else if (segment.start >= from && segment.start < to) {
+        segments.push(segment);
+      }
+    });
+  });
+
+  const confidences = results
+    .map(result => result.confidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+
+  return {
+    text: segments.length ? segments.map(segment => segment.text.trim()).join(' ') : texts.filter(Boolean).join(' '),
+    confidence: confidences.length ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : undefined,
+    provider: results[0]?.provider || 'none',
+    language: results.find(result => result.language)?.language,
+    // Overlaps are sent, and billed, twice
+    durationSeconds: results.reduce((sum, result, index) => sum + (result.durationSeconds ?? chunks[index].duration), 0),
+    segments: segments.length ? segments : undefined,
+  };
+}
+
+async function readBytes(uri: string, position: number, length: number): Promise<Uint8Array> {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function parseWavHeader(bytes: Uint8Array): WavLayout {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.slice(offset, offset + 4));
+
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let layout: Partial<WavLayout> = {};
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'fmt ') {
+      layout = {
+        ...layout,
+        audioFormat: view.getUint16(offset + 8, true),
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        byteRate: view.getUint32(offset + 16, true),
+        blockAlign: view.getUint16(offset + 20, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (id === 'data') {
+      layout.dataOffset = offset + 8;
+      layout.dataLength = size;
+      break;
+    }
+    offset += 8 + size + (size % 2); // chunks are word aligned
+  }
+
+  if (!layout.byteRate || !layout.blockAlign || layout.dataOffset === undefined) {
+    throw new Error('Unsupported WAV layout');
+  }
+  return layout as WavLayout;
+}
+
+function buildChunkHeader(layout: WavLayout, dataLength: number): string {
+  const header = new DataView(new ArrayBuffer(CHUNK_HEADER_BYTES));
+  const writeTag = (offset: number, value: string) => {
+    for (let i = 0; i < 4; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  header.setUint32(4, CHUNK_HEADER_BYTES - 8 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, layout.audioFormat, true);
+  header.setUint16(22, layout.channels, true);
+  header.setUint32(24, layout.sampleRate, true);
+  header.setUint32(28, layout.byteRate, true);
+  header.setUint16(32, layout.blockAlign, true);
+  header.setUint16(34, layout.bitsPerSample, true);
+  writeTag(36, 'JUNK');
+  header.setUint32(40, 2, true);
+  // bytes 44-45 are the JUNK padding
+  writeTag(46, 'data');
+  header.setUint32(50, dataLength, true);
+
+  let binary = '';
+  new Uint8Array(header.buffer).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function alignDown(value: number, blockAlign: number): number {
+  return Math.floor(value / blockAlign) * blockAlign;
+}
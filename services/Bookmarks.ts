@@ -0,0 +1,36 @@
+import { generateId } from './Abort';
+
+export type BookmarkKind = 'manual' | 'flagged' | 'auto';
+
+export type BookmarkSource = 'flic' | 'ui' | 'voice';
+
+export interface Bookmark {
+  id: string;
+  offset: number; // seconds into the recording
+  kind: BookmarkKind;
+  source: BookmarkSource;
+  label?: string;
+}
+
+export interface BookmarkOptions {
+  kind?: BookmarkKind;
+  source?: BookmarkSource;
+  label?: string;
+}
+
+export function createBookmark(offset: number, options: BookmarkOptions = {}): Bookmark {
+  return {
+    id: generateId(),
+    offset,
+    kind: options.kind || 'manual',
+    source: options.source || 'flic',
+    label: options.label,
+  };
+}
+
+// Items stored before bookmarks had a type hold bare offsets in seconds
+export function normalizeBookmarks(bookmarks: Array<Bookmark | number> | undefined): Bookmark[] {
+  return (bookmarks || [])
+    .map(bookmark => typeof bookmark === 'number' ? createBookmark(bookmark) : bookmark)
+    .sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,69 @@
+import { Bookmark, BookmarkKind } from './Bookmarks';
+import { TranscriptSegment } from './TranscriptionService';
+
+export interface ExcerptWindow {
+  beforeSeconds: number;
+  afterSeconds: number;
+}
+
+export const DEFAULT_EXCERPT_WINDOW: ExcerptWindow = {
+  beforeSeconds: 20,
+  afterSeconds: 10,
+};
+
+export interface BookmarkExcerpt {
+  bookmarkId: string;
+  offset: number; // seconds into the recording, same as the bookmark
+  kind: BookmarkKind;
+  label?: string;
+  start: number; // seconds covered by the text
+  end: number;
+  text: string;
+}
+
+// The text spoken around each bookmark. Word timings give an exact cut; without them
+// whole segments overlapping the window are used. Bookmarks with nothing said nearby are left out.
+export function buildExcerpts(
+  bookmarks: Bookmark[],
+  segments: TranscriptSegment[],
+  window: ExcerptWindow = DEFAULT_EXCERPT_WINDOW
+): BookmarkExcerpt[] {
+  if (segments.length === 0) {
+    return [];
+  }
+
+  const excerpts: BookmarkExcerpt[] = [];
+  bookmarks.forEach(bookmark => {
+    const from = Math.max(0, bookmark.offset - window.beforeSeconds);
+    const to = bookmark.offset + window.afterSeconds;
+
+    const pieces: { start: number; end: number; text: string }[] = [];
+    segments
+      .filter(segment => segment.end > from && segment.start < to)
+      .forEach(segment => {
+        if (segment.words?.length) {
+          segment.words
+            .filter(word => word.end > from && word.start < to)
+            .forEach(word => pieces.push(word));
+        } else {
+          pieces.push(segment);
+        }
+      });
+
+    if (pieces.length === 0) {
+      return;
+    }
+
+    excerpts.push({
+      bookmarkId: bookmark.id,
+      offset: bookmark.offset,
+      kind: bookmark.kind,
+      label: bookmark.label,
+      start: pieces[0].start,
+      end: pieces[pieces.length - 1].end,
+      text: pieces.map(piece => piece.text.trim()).filter(Boolean).join(' '),
+    });
+  });
+
+  return excerpts;
+}
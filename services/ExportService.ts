@@ -0,0 +1,42 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform, Share } from 'react-native';
+import { RecordingEntry } from './RecordingStore';
+import { EXPORT_FORMATS, ExportFormat, renderTranscript } from './TranscriptFormats';
+
+export type ExportDestination = 'share' | 'documents';
+
+export class ExportService {
+  private readonly EXPORT_DIR = 'exports/';
+
+  // Writes the transcript to the app's document directory and returns the file URI
+  async saveToDocuments(recording: RecordingEntry, format: ExportFormat): Promise<string> {
+    if (!FileSystem.documentDirectory) {
+      throw new Error('Saving files is not supported on this platform');
+    }
+
+    const dir = `${FileSystem.documentDirectory}${this.EXPORT_DIR}`;
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+    const uri = `${dir}${this.getFileName(recording, format)}`;
+    await FileSystem.writeAsStringAsync(uri, renderTranscript(recording, format));
+    console.log('📄 Exported transcript to:', uri);
+    return uri;
+  }
+
+  // iOS shares the file itself; Android's share sheet only takes text
+  async share(recording: RecordingEntry, format: ExportFormat): Promise<void> {
+    const title = this.getFileName(recording, format);
+
+    if (Platform.OS === 'ios') {
+      const uri = await this.saveToDocuments(recording, format);
+      await Share.share({ url: uri, title });
+    } else {
+      await Share.share({ message: renderTranscript(recording, format), title });
+    }
+  }
+
+  getFileName(recording: RecordingEntry, format: ExportFormat): string {
+    const stamp = new Date(recording.createdAt).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    return `recording-${stamp}${EXPORT_FORMATS[format].extension}`;
+  }
+}
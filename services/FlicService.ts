@@ -3,12 +3,14 @@ import { PermissionsAndroid, Platform } from 'react-native';
 export enum ClickType {
   SINGLE = 'single',
   DOUBLE = 'double',
+  TRIPLE = 'triple',
   HOLD = 'hold'
 }
 
 export interface FlicEvents {
   onSingleClick(): void;
   onDoubleClick(): void;
+  onTripleClick(): void;
   onHold(): void;
   onConnectionChange(connected: boolean): void;
 }
@@ -460,9 +462,12 @@ export class FlicService {
       if (this.clickCount === 1) {
         console.log('Flic: Single click confirmed');
         this.delegate?.onSingleClick();
-      } else if (this.clickCount >= 2) {
+      } else if (this.clickCount === 2) {
         console.log('Flic: Double click confirmed');
         this.delegate?.onDoubleClick();
+      } else if (this.clickCount >= 3) {
+        console.log('Flic: Triple click confirmed');
+        this.delegate?.onTripleClick();
       }
       this.clickCount = 0;
     }, 250); // 250ms to wait for potential second click
@@ -0,0 +1,50 @@
+// Let the provider work out the spoken language
+export const AUTO_LANGUAGE = 'auto';
+
+export interface Language {
+  code: string; // ISO 639-1, as both providers accept it
+  name: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', name: 'English' },
+  { code: 'de', name: 'German' },
+  { code: 'fr', name: 'French' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+];
+
+export const DEFAULT_LANGUAGE = AUTO_LANGUAGE;
+
+export function getLanguageName(code: string | undefined): string {
+  if (!code || code === AUTO_LANGUAGE) {
+    return 'Auto-detect';
+  }
+  return LANGUAGES.find(language => language.code === code)?.name || code;
+}
+
+// Providers report detected languages as codes ("en", "en_us") or names ("english")
+export function normalizeLanguage(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const lower = value.trim().toLowerCase();
+  const byName = LANGUAGES.find(language => language.name.toLowerCase() === lower);
+  if (byName) {
+    return byName.code;
+  }
+  return lower.split(/[-_]/)[0] || undefined;
+}
@@ -0,0 +1,230 @@
+import { TranscriptionResult, TranscriptSegment, TranscriptWord } from './TranscriptionService';
+import {
+  ConnectionTestResult,
+  ProviderSettings,
+  TranscribeOptions,
+  TranscriptionProvider,
+  cancelledResult,
+  prepareAudioFile,
+} from './TranscriptionProviders';
+import { fetchWithTimeout } from './Abort';
+import { AUTO_LANGUAGE, normalizeLanguage } from './Languages';
+import { buildWhisperPrompt } from './Vocabulary';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'whisper-1';
+const TEST_TIMEOUT_MS = 10000;
+// Self-hosted servers on a CPU can take minutes for a long recording
+const TRANSCRIBE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Where to send audio; self-hosted servers may not need a key
+interface WhisperEndpoint {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export class OpenAIWhisperProvider implements TranscriptionProvider {
+  readonly id = 'openai';
+  readonly label = 'OpenAI Whisper';
+  readonly description = 'Recommended';
+  readonly maxFileSizeBytes = 25 * 1024 * 1024;
+  readonly costPerMinute = 0.006;
+  readonly settingsSchema = [
+    {
+      key: 'openai_api_key',
+      label: 'OpenAI API Key',
+      placeholder: 'sk-proj-...',
+      hint: 'Used for Whisper transcription',
+      secure: true,
+      required: true,
+    },
+  ];
+
+  transcribe(audioUri: string, settings: ProviderSettings, options?: TranscribeOptions): Promise<TranscriptionResult> {
+    return transcribeWithWhisper(audioUri, this.id, {
+      baseUrl: OPENAI_BASE_URL,
+      model: DEFAULT_MODEL,
+      apiKey: settings.openai_api_key,
+    }, options);
+  }
+
+  testConnection(settings: ProviderSettings): Promise<ConnectionTestResult> {
+    return testWhisperEndpoint({ baseUrl: OPENAI_BASE_URL, model: DEFAULT_MODEL, apiKey: settings.openai_api_key });
+  }
+}
+
+// Any server speaking the OpenAI transcription API, e.g. faster-whisper on the local network
+export class OpenAICompatibleProvider implements TranscriptionProvider {
+  readonly id = 'openai-compatible';
+  readonly label = 'Self-hosted Whisper';
+  readonly description = 'OpenAI-compatible server';
+  readonly selfHosted = true;
+  readonly settingsSchema = [
+    {
+      key: 'whisper_server_base_url',
+      label: 'Server Base URL',
+      placeholder: 'http://192.168.1.20:8000/v1',
+      hint: 'The URL that /audio/transcriptions is appended to',
+      required: true,
+    },
+    {
+      key: 'whisper_server_model',
+      label: 'Model',
+      placeholder: DEFAULT_MODEL,
+      hint: 'Model name the server expects, e.g. Systran/faster-whisper-small',
+    },
+    {
+      key: 'whisper_server_api_key',
+      label: 'API Key (optional)',
+      placeholder: 'Leave empty if the server has no auth',
+      secure: true,
+    },
+  ];
+
+  isConfigured(settings: ProviderSettings): boolean {
+    return isHttpUrl(settings.whisper_server_base_url);
+  }
+
+  transcribe(audioUri: string, settings: ProviderSettings, options?: TranscribeOptions): Promise<TranscriptionResult> {
+    return transcribeWithWhisper(audioUri, this.id, this.getEndpoint(settings), options);
+  }
+
+  testConnection(settings: ProviderSettings): Promise<ConnectionTestResult> {
+    if (!isHttpUrl(settings.whisper_server_base_url)) {
+      return Promise.resolve({ ok: false, message: 'Base URL must start with http:// or https://' });
+    }
+    return testWhisperEndpoint(this.getEndpoint(settings));
+  }
+
+  private getEndpoint(settings: ProviderSettings): WhisperEndpoint {
+    return {
+      baseUrl: settings.whisper_server_base_url.trim().replace(/\/+$/, ''),
+      model: settings.whisper_server_model?.trim() || DEFAULT_MODEL,
+      apiKey: settings.whisper_server_api_key?.trim() || undefined,
+    };
+  }
+}
+
+function isHttpUrl(value: string | undefined): boolean {
+  return /^https?:\/\/\S+$/i.test(value?.trim() || '');
+}
+
+async function transcribeWithWhisper(
+  audioUri: string,
+  providerId: string,
+  endpoint: WhisperEndpoint,
+  options: TranscribeOptions = {}
+): Promise<TranscriptionResult> {
+  const language = options.language || AUTO_LANGUAGE;
+  try {
+    console.log(`Starting ${providerId} transcription for:`, audioUri, 'via', endpoint.baseUrl);
+
+    const { file, fileName } = await prepareAudioFile(audioUri);
+
+    const formData = new FormData();
+    formData.append('file', file, fileName);
+    formData.append('model', endpoint.model);
+    // Whisper detects the language itself when none is given
+    if (language !== AUTO_LANGUAGE) {
+      formData.append('language', language);
+    }
+    const prompt = buildWhisperPrompt(options.glossary || []);
+    if (prompt) {
+      formData.append('prompt', prompt);
+    }
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'segment');
+    formData.append('timestamp_granularities[]', 'word');
+
+    const response = await fetchWithTimeout(`${endpoint.baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {},
+      body: formData,
+    }, TRANSCRIBE_TIMEOUT_MS, options.signal);
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(`Whisper API error: ${result.error?.message || result.detail || `HTTP ${response.status}`}`);
+    }
+
+    console.log(`${providerId} transcription completed:`, result.text);
+    return {
+      text: result.text || '',
+      provider: providerId,
+      language: normalizeLanguage(result.language) || (language !== AUTO_LANGUAGE ? language : undefined),
+      durationSeconds: typeof result.duration === 'number' ? result.duration : undefined,
+      segments: normalizeWhisperSegments(result),
+    };
+
+  } catch (error) {
+    if (options.signal?.aborted) {
+      console.log(`${providerId} transcription cancelled`);
+      return cancelledResult(providerId);
+    }
+    console.error(`${providerId} transcription error:`, error);
+    return {
+      text: '',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      provider: providerId
+    };
+  }
+}
+
+// Lists the server's models, which proves the URL and key without uploading audio
+async function testWhisperEndpoint(endpoint: WhisperEndpoint): Promise<ConnectionTestResult> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${endpoint.baseUrl}/models`, {
+      headers: endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {},
+      signal: controller.signal,
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      return { ok: false, message: 'The server rejected the API key' };
+    }
+    if (!response.ok) {
+      return { ok: false, message: `Server answered HTTP ${response.status}` };
+    }
+
+    const result = await response.json().catch(() => null);
+    const models: string[] = Array.isArray(result?.data) ? result.data.map((model: any) => model.id) : [];
+    if (models.length > 0 && !models.includes(endpoint.model)) {
+      return { ok: false, message: `Connected, but model "${endpoint.model}" is not offered. Available: ${models.join(', ')}` };
+    }
+    return { ok: true, message: `Connected to ${endpoint.baseUrl}` };
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `No answer within ${TEST_TIMEOUT_MS / 1000} seconds`
+      : error instanceof Error ? error.message : 'Unknown error';
+    return { ok: false, message };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// verbose_json: segments and words carry start/end in seconds, words are not nested
+function normalizeWhisperSegments(result: any): TranscriptSegment[] | undefined {
+  if (!Array.isArray(result.segments)) {
+    return undefined;
+  }
+
+  const words: TranscriptWord[] = (result.words || []).map((word: any) => ({
+    start: word.start,
+    end: word.end,
+    text: String(word.word).trim(),
+  }));
+
+  return result.segments.map((segment: any) => {
+    const segmentWords = words.filter(word => word.start >= segment.start && word.start < segment.end);
+    return {
+      start: segment.start,
+      end: segment.end,
+      text: String(segment.text).trim(),
+      words: segmentWords.length ? segmentWords : undefined,
+    };
+  });
+}
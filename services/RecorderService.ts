@@ -1,13 +1,143 @@
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_RECORDING_PROFILE, RecordingProfileId, getRecordingProfile } from './RecordingProfiles';
+import { Bookmark, BookmarkOptions, createBookmark, normalizeBookmarks } from './Bookmarks';
+import { generateId } from './Abort';
 
-export type RecorderCallback = (fileUri?: string, bookmarks?: number[]) => void;
+export type RecorderCallback = (fileUri?: string, bookmarks?: Bookmark[], details?: RecordingDetails) => void;
+
+export type StopReason = 'user' | 'silence' | 'maxDuration' | 'lowStorage' | 'error';
+
+export type LimitReason = 'maxDuration' | 'lowStorage';
+
+export type InputLevelWarning = 'muted' | 'clipping';
+
+export interface RecorderEvents {
+  onSilenceTimeout(): void;
+  // remaining is seconds for maxDuration and megabytes above the minimum for lowStorage
+  onRecordingLimitWarning(reason: LimitReason, remaining: number): void;
+  onRecordingLimitReached(reason: LimitReason): void;
+  onRecordingFailed(): void; // the recorder stopped on its own; stop() still returns the segments written so far
+  onInterruptionChange(interrupted: boolean): void;
+  onInputLevel(level: number): void; // dBFS, -160 (silence) to 0 (full scale)
+  onInputLevelWarning(warning: InputLevelWarning): void;
+}
+
+export interface InterruptionEvent {
+  offset: number; // seconds into the logical recording where the gap sits
+  duration: number; // seconds of wall clock time with no audio captured
+}
+
+export interface SilentRange {
+  start: number; // seconds into the logical recording
+  end: number;
+}
+
+export interface RecordingSegment {
+  uri: string;
+  index: number;
+  startedAt: number; // wall clock time the segment started
+  startOffset: number; // seconds into the logical recording, excluding paused time
+}
+
+export interface RecordingSession {
+  id: string;
+  startedAt: number;
+  segments: RecordingSegment[];
+  bookmarks: Bookmark[];
+  preRollSeconds?: number;
+  interruptions?: InterruptionEvent[];
+}
+
+export interface RecordingDetails {
+  segments: string[];
+  segmentOffsets: number[]; // seconds into the recording where each segment file starts
+  silentRanges: SilentRange[];
+  profile: RecordingProfileId;
+  preRollSeconds: number; // audio captured before the recording was started
+  interruptions: InterruptionEvent[];
+}
+
+interface BufferChunk {
+  uri: string;
+  startedAt: number;
+}
+
+export interface RecorderConfig {
+  profile: RecordingProfileId;
+  segmentDurationMinutes: number;
+  silenceTimeoutSeconds: number; // 0 disables auto-stop
+  silenceThresholdDb: number; // metering below this level counts as silence
+  minSilentRangeSeconds: number; // shorter gaps are not worth skipping
+  preRollSeconds: number; // window kept by the always-listening buffer
+  maxDurationMinutes: number; // 0 means no limit
+  minFreeSpaceMB: number; // stop before the device runs out of space
+  limitWarningMinutes: number; // warn this long before the duration limit
+  freeSpaceWarningMB: number; // warn when free space gets this close to the minimum
+  limitCheckIntervalSeconds: number;
+  mutedThresholdDb: number; // quieter than any real room, so likely a muted or covered mic
+  clippingThresholdDb: number;
+  micCheckSeconds: number; // how long a muted input lasts before warning
+  clippingSeconds: number;
+}
+
+const defaultConfig: RecorderConfig = {
+  profile: DEFAULT_RECORDING_PROFILE,
+  segmentDurationMinutes: 10,
+  silenceTimeoutSeconds: 0,
+  silenceThresholdDb: -50,
+  minSilentRangeSeconds: 3,
+  preRollSeconds: 30,
+  maxDurationMinutes: 180,
+  minFreeSpaceMB: 200,
+  limitWarningMinutes: 5,
+  freeSpaceWarningMB: 300,
+  limitCheckIntervalSeconds: 15,
+  mutedThresholdDb: -60,
+  clippingThresholdDb: -1,
+  micCheckSeconds: 10,
+  clippingSeconds: 2,
+};
 
 export class RecorderService {
+  private config: RecorderConfig;
+  private delegate: RecorderEvents | null = null;
   private recording: Audio.Recording | null = null;
+  private session: RecordingSession | null = null;
   private fileUri: string | null = null;
-  private bookmarks: number[] = [];
+  private bookmarks: Bookmark[] = [];
   private startTime: number = 0;
+  private pausedAt: number | null = null;
+  private pausedDuration: number = 0;
+  private segmentTimer: NodeJS.Timeout | null = null;
+  private rotation: Promise<void> | null = null;
+  private silenceStart: number | null = null;
+  private silentRanges: SilentRange[] = [];
+  private silenceTimeoutFired = false;
+  private bufferRecording: Audio.Recording | null = null;
+  private bufferChunks: BufferChunk[] = []; // oldest first, the last one is being written
+  private bufferTimer: NodeJS.Timeout | null = null;
+  private bufferRotation: Promise<void> | null = null;
+  private limitTimer: NodeJS.Timeout | null = null;
+  private warnedLimits = new Set<LimitReason>();
+  private limitReached = false;
+  private interruptedAt: number | null = null;
+  private interruptionTimer: NodeJS.Timeout | null = null;
+  private recoveringInterruption = false;
+  private mutedSamples = 0;
+  private clippingSamples = 0;
+  private levelWarnings = new Set<InputLevelWarning>();
+  private readonly STATUS_INTERVAL_MS = 500;
+  private readonly STORAGE_KEY = 'recording_session';
+
+  constructor(config?: Partial<RecorderConfig>) {
+    this.config = { ...defaultConfig, ...config };
+  }
+
+  setDelegate(delegate: RecorderEvents): void {
+    this.delegate = delegate;
+  }
 
   async start(): Promise<boolean> {
     try {
@@ -17,114 +147,185 @@ export class RecorderService {
         return false;
       }
 
+      // Keep the buffered audio by continuing the buffer as the recording
+      if (this.isBuffering) {
+        if (await this.startFromBuffer()) {
+          return true;
+        }
+        await this.stopBuffering();
+      }
+
       // Clean up any existing recording first with better error handling
       await this.forceCleanup();
+      await this.loadSavedSettings();
 
-      // Request permissions
-      const { status } = await Audio.requestPermissionsAsync();
-      if (status !== 'granted') {
-        console.error('Audio recording permission not granted');
+      if (!(await this.prepareAudioSession())) {
         return false;
       }
 
-      // Set audio mode for recording - minimal config for iOS
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-      });
-
       console.log('🎤 Creating new recording object...');
-      
-      // Create new recording with retry logic for state conflicts
-      let retryCount = 0;
-      while (retryCount < 3) {
-        try {
-          this.recording = new Audio.Recording();
-          await this.recording.prepareToRecordAsync(Audio.RECORDING_OPTIONS_PRESET_HIGH_QUALITY);
-          break; // Success, exit retry loop
-        } catch (prepareError) {
-          console.warn(`Recording prepare attempt ${retryCount + 1} failed:`, prepareError);
-          
-          // Clean up failed recording object
-          if (this.recording) {
-            try {
-              await this.recording.stopAndUnloadAsync();
-            } catch (cleanupError) {
-              // Ignore cleanup errors
-            }
-            this.recording = null;
-          }
-          
-          retryCount++;
-          if (retryCount >= 3) {
-            throw prepareError; // Re-throw if all retries failed
-          }
-          
-          // Wait briefly before retry
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
-      
+      this.recording = await this.createRecording();
+
       // Start recording
-      await this.recording!.startAsync();
+      await this.recording.startAsync();
       this.startTime = Date.now();
+      this.pausedAt = null;
+      this.pausedDuration = 0;
       this.bookmarks = [];
-      
+      this.resetSilenceTracking();
+
+      // Persist the manifest right away so a crash still leaves the first segment recoverable
+      this.session = {
+        id: generateId(),
+        startedAt: this.startTime,
+        segments: [],
+        bookmarks: [],
+      };
+      this.addSegment(this.recording.getURI(), 0);
+      await this.saveSession();
+      this.startSegmentTimer();
+      this.startLimitGuard();
+
       console.log('✅ Recording started successfully');
       return true;
     } catch (error) {
       console.error('❌ Failed to start recording:', error);
       // Force cleanup on error
       await this.forceCleanup();
+      await this.clearSession();
       return false;
     }
   }
 
   async stop(onFinish?: RecorderCallback): Promise<void> {
-    if (!this.recording) {
+    if (!this.session) {
       console.log('No recording to stop');
       onFinish?.(undefined, []);
       return;
     }
 
+    this.stopSegmentTimer();
+    this.stopLimitGuard();
+    if (this.rotation) {
+      await this.rotation;
+    }
+
+    const wasInterrupted = this.isInterrupted;
+    this.endInterruption(false);
+
+    const finalBookmarks = [...this.bookmarks];
+    const finalSegments = this.session.segments.map(segment => segment.uri);
+    const details: RecordingDetails = {
+      segments: finalSegments,
+      segmentOffsets: this.session.segments.map(segment => segment.startOffset),
+      silentRanges: this.finalizeSilentRanges(),
+      profile: this.config.profile,
+      preRollSeconds: this.session.preRollSeconds || 0,
+      interruptions: this.session.interruptions || [],
+    };
+
     try {
       console.log('Stopping recording...');
-      await this.recording.stopAndUnloadAsync();
-      const uri = this.recording.getURI();
-      
-      const finalUri = uri;
-      const finalBookmarks = [...this.bookmarks];
+      if (this.recording) {
+        this.recording.setOnRecordingStatusUpdate(null);
+        try {
+          await this.recording.stopAndUnloadAsync();
+        } catch (stopError) {
+          // A recorder the system already tore down still leaves the earlier audio on disk
+          if (!wasInterrupted) throw stopError;
+        }
+      }
 
-      // Clean up immediately
-      this.recording = null;
-      this.fileUri = null;
-      this.bookmarks = [];
-      
-      console.log('Recording stopped successfully:', finalUri);
-      onFinish?.(finalUri, finalBookmarks);
+      console.log('Recording stopped successfully:', finalSegments);
+      onFinish?.(finalSegments[0], finalBookmarks, details);
     } catch (error) {
       console.error('Failed to stop recording:', error);
-      // Force cleanup even on error
+      onFinish?.(undefined, []);
+    } finally {
+      // Clean up immediately, even on error
       this.recording = null;
       this.fileUri = null;
       this.bookmarks = [];
-      onFinish?.(undefined, []);
+      this.pausedAt = null;
+      this.pausedDuration = 0;
+      this.session = null;
+      this.resetSilenceTracking();
+      await this.clearSession();
+    }
+  }
+
+  async pause(): Promise<boolean> {
+    if (!this.recording || !this.isRecording || this.isPaused) {
+      return false;
+    }
+
+    // Set before pausing so the status update that follows is not taken for an interruption
+    this.pausedAt = Date.now();
+    try {
+      await this.recording.pauseAsync();
+      console.log('⏸️ Recording paused');
+      return true;
+    } catch (error) {
+      console.error('Failed to pause recording:', error);
+      this.pausedAt = null;
+      return false;
+    }
+  }
+
+  async resume(): Promise<boolean> {
+    if (!this.recording || !this.isRecording || !this.isPaused) {
+      return false;
+    }
+
+    try {
+      await this.recording.startAsync();
+      this.pausedDuration += Date.now() - this.pausedAt!;
+      this.pausedAt = null;
+      console.log('▶️ Recording resumed');
+      return true;
+    } catch (error) {
+      console.error('Failed to resume recording:', error);
+      return false;
     }
   }
 
-  mark(): void {
+  mark(options?: BookmarkOptions): Bookmark | null {
     if (!this.recording || !this.isRecording) {
-      return;
+      return null;
     }
 
-    const currentTime = (Date.now() - this.startTime) / 1000;
-    this.bookmarks.push(currentTime);
-    console.log('Bookmark added at:', currentTime);
+    const currentTime = this.getElapsedMillis() / 1000;
+    const bookmark = createBookmark(currentTime, options);
+    this.bookmarks.push(bookmark);
+    this.saveSession();
+    console.log('Bookmark added at:', currentTime, bookmark.kind);
+    return bookmark;
+  }
+
+  // Elapsed recording time with paused stretches excluded, so offsets line up with the audio file
+  private getElapsedMillis(): number {
+    const now = this.pausedAt ?? this.interruptedAt ?? Date.now();
+    return now - this.startTime - this.pausedDuration;
+  }
+
+  get profile(): RecordingProfileId {
+    return this.config.profile;
+  }
+
+  get isPaused(): boolean {
+    return this.pausedAt !== null;
+  }
+
+  get isInterrupted(): boolean {
+    return this.interruptedAt !== null;
   }
 
   get isRecording(): boolean {
+    // The previous segment is already done while the next one is being prepared,
+    // and an interrupted recorder may be torn down until the audio session returns
+    if (this.rotation || this.isInterrupted) return true;
     if (!this.recording) return false;
-    
+
     try {
       // Check if recording object exists and is in a valid state
       return this.recording._isDoneRecording === false;
@@ -139,18 +340,601 @@ export class RecorderService {
     if (!this.recording || !this.isRecording) {
       return 0;
     }
-    
+
     try {
       const status = await this.recording.getStatusAsync();
-      return status.durationMillis || 0;
+      const currentSegment = this.session?.segments[this.session.segments.length - 1];
+      return (currentSegment?.startOffset || 0) * 1000 + (status.durationMillis || 0);
     } catch {
       return 0;
     }
   }
 
+  // Pre-roll buffer
+  async startBuffering(): Promise<boolean> {
+    if (this.isBuffering) return true;
+    if (this.session) return false; // Buffering resumes after the recording stops
+
+    try {
+      await this.loadSavedSettings();
+      if (!(await this.prepareAudioSession())) {
+        return false;
+      }
+
+      await this.startBufferChunk();
+      this.bufferTimer = setInterval(() => {
+        if (this.bufferRotation) return;
+        this.bufferRotation = this.rotateBufferChunk().finally(() => {
+          this.bufferRotation = null;
+        });
+      }, this.config.preRollSeconds * 1000);
+
+      console.log(`👂 Buffering the last ${this.config.preRollSeconds}s`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to start pre-roll buffer:', error);
+      await this.stopBuffering();
+      return false;
+    }
+  }
+
+  async stopBuffering(): Promise<void> {
+    this.stopBufferTimer();
+    if (this.bufferRotation) {
+      await this.bufferRotation;
+    }
+
+    if (this.bufferRecording) {
+      try {
+        this.bufferRecording.setOnRecordingStatusUpdate(null);
+        await this.bufferRecording.stopAndUnloadAsync();
+      } catch (error) {
+        console.log('Buffer stop failed (ignored):', error);
+      }
+      this.bufferRecording = null;
+    }
+    this.deleteBufferChunks(this.bufferChunks.length);
+  }
+
+  get isBuffering(): boolean {
+    return this.bufferTimer !== null;
+  }
+
+  private async startBufferChunk(): Promise<void> {
+    this.bufferRecording = await this.createRecording();
+    await this.bufferRecording.startAsync();
+
+    const uri = this.bufferRecording.getURI();
+    if (uri) {
+      this.bufferChunks.push({ uri, startedAt: Date.now() });
+    }
+  }
+
+  // Each chunk spans the whole window, so the finished chunk plus the live one always cover it
+  private async rotateBufferChunk(): Promise<void> {
+    if (!this.bufferRecording) return;
+
+    try {
+      this.bufferRecording.setOnRecordingStatusUpdate(null);
+      await this.bufferRecording.stopAndUnloadAsync();
+      this.bufferRecording = null;
+      this.deleteBufferChunks(this.bufferChunks.length - 1);
+      await this.startBufferChunk();
+    } catch (error) {
+      console.error('❌ Buffer rotation failed:', error);
+      this.stopBufferTimer();
+      this.bufferRecording = null;
+      this.deleteBufferChunks(this.bufferChunks.length);
+    }
+  }
+
+  private async startFromBuffer(): Promise<boolean> {
+    this.stopBufferTimer();
+    if (this.bufferRotation) {
+      await this.bufferRotation;
+    }
+    if (!this.bufferRecording || this.bufferChunks.length === 0) {
+      return false;
+    }
+
+    const chunks = this.bufferChunks;
+    this.recording = this.bufferRecording;
+    this.bufferRecording = null;
+    this.bufferChunks = [];
+
+    // The logical recording starts with the oldest buffered chunk
+    this.startTime = chunks[0].startedAt;
+    this.pausedAt = null;
+    this.pausedDuration = 0;
+    this.bookmarks = [];
+    this.resetSilenceTracking();
+
+    this.session = {
+      id: generateId(),
+      startedAt: this.startTime,
+      segments: [],
+      bookmarks: [],
+      preRollSeconds: (Date.now() - this.startTime) / 1000,
+    };
+    chunks.forEach(chunk => {
+      this.addSegment(chunk.uri, (chunk.startedAt - this.startTime) / 1000, chunk.startedAt);
+    });
+    await this.saveSession();
+    this.startSegmentTimer();
+    this.startLimitGuard();
+
+    console.log(`✅ Recording started with ${Math.round(this.session.preRollSeconds!)}s of pre-roll`);
+    return true;
+  }
+
+  private stopBufferTimer(): void {
+    if (this.bufferTimer) {
+      clearInterval(this.bufferTimer);
+      this.bufferTimer = null;
+    }
+  }
+
+  private deleteBufferChunks(count: number): void {
+    const expired = this.bufferChunks.splice(0, Math.max(0, count));
+    expired.forEach(chunk => {
+      FileSystem.deleteAsync(chunk.uri, { idempotent: true }).catch(() => {
+        // Ignore errors when deleting expired buffer chunks
+      });
+    });
+  }
+
+  // Audio session interruptions
+  private beginInterruption(): void {
+    if (!this.session) return;
+
+    this.interruptedAt = Date.now();
+    this.session.interruptions = [
+      ...(this.session.interruptions || []),
+      { offset: this.getElapsedMillis() / 1000, duration: 0 },
+    ];
+    this.saveSession();
+
+    console.log('📞 Recording interrupted by another audio session');
+    this.delegate?.onInterruptionChange(true);
+
+    this.interruptionTimer = setInterval(() => {
+      this.recoverFromInterruption();
+    }, 2000);
+  }
+
+  private async recoverFromInterruption(): Promise<void> {
+    if (this.recoveringInterruption || !this.isInterrupted || !this.session) return;
+
+    this.recoveringInterruption = true;
+    try {
+      if (this.recording) {
+        const status = await this.recording.getStatusAsync();
+        if (status.isRecording) {
+          this.endInterruption();
+          return;
+        }
+
+        if (status.canRecord && !status.isDoneRecording) {
+          // Throws while the other app still holds the audio session
+          await this.recording.startAsync();
+          this.endInterruption();
+          return;
+        }
+
+        // The system tore the recorder down, so continue in a new segment
+        this.recording.setOnRecordingStatusUpdate(null);
+        try {
+          await this.recording.stopAndUnloadAsync();
+        } catch (unloadError) {
+          // Ignore, the recorder is already unusable
+        }
+        this.recording = null;
+      }
+
+      this.recording = await this.createRecording();
+      this.addSegment(this.recording.getURI(), this.getElapsedMillis() / 1000);
+      await this.recording.startAsync();
+      this.endInterruption();
+    } catch (error) {
+      // Still interrupted - try again on the next tick
+    } finally {
+      this.recoveringInterruption = false;
+    }
+  }
+
+  private endInterruption(resumed = true): void {
+    if (this.interruptedAt === null) return;
+
+    if (this.interruptionTimer) {
+      clearInterval(this.interruptionTimer);
+      this.interruptionTimer = null;
+    }
+
+    const gap = Date.now() - this.interruptedAt;
+    this.pausedDuration += gap;
+    this.interruptedAt = null;
+
+    const interruptions = this.session?.interruptions;
+    if (interruptions?.length) {
+      interruptions[interruptions.length - 1].duration = gap / 1000;
+    }
+    this.saveSession();
+
+    if (resumed) {
+      console.log(`🎙️ Recording resumed after ${Math.round(gap / 1000)}s interruption`);
+      this.delegate?.onInterruptionChange(false);
+    }
+  }
+
+  // Silence detection
+  private handleStatusUpdate = (status: Audio.RecordingStatus): void => {
+    if (!this.session) {
+      return;
+    }
+
+    // Not paused by us, yet no longer recording: a call or another app took the audio session
+    if (!status.isRecording && !this.isPaused && !this.isInterrupted && !this.rotation) {
+      this.beginInterruption();
+      return;
+    }
+
+    if (!status.isRecording || status.metering === undefined || this.isPaused) {
+      return;
+    }
+
+    this.delegate?.onInputLevel(status.metering);
+    this.checkInputLevel(status.metering);
+
+    const offset = this.getElapsedMillis() / 1000;
+    if (status.metering >= this.config.silenceThresholdDb) {
+      this.closeSilentRange(offset);
+      this.silenceTimeoutFired = false;
+      return;
+    }
+
+    if (this.silenceStart === null) {
+      this.silenceStart = offset;
+    }
+
+    const silentFor = offset - this.silenceStart;
+    const timeout = this.config.silenceTimeoutSeconds;
+    if (timeout > 0 && silentFor >= timeout && !this.silenceTimeoutFired) {
+      console.log(`🤫 No speech for ${Math.round(silentFor)}s, auto-stopping`);
+      this.silenceTimeoutFired = true;
+      this.delegate?.onSilenceTimeout();
+    }
+  };
+
+  // Input level checks count consecutive status updates, so paused time never adds up
+  private checkInputLevel(level: number): void {
+    const samplesPerSecond = 1000 / this.STATUS_INTERVAL_MS;
+
+    this.mutedSamples = level < this.config.mutedThresholdDb ? this.mutedSamples + 1 : 0;
+    this.clippingSamples = level >= this.config.clippingThresholdDb ? this.clippingSamples + 1 : 0;
+
+    this.updateLevelWarning('muted', this.mutedSamples >= this.config.micCheckSeconds * samplesPerSecond, this.mutedSamples === 0);
+    this.updateLevelWarning('clipping', this.clippingSamples >= this.config.clippingSeconds * samplesPerSecond, this.clippingSamples === 0);
+  }
+
+  // Warn once per episode; the warning re-arms as soon as the level is normal again
+  private updateLevelWarning(warning: InputLevelWarning, triggered: boolean, cleared: boolean): void {
+    if (cleared) {
+      this.levelWarnings.delete(warning);
+    } else if (triggered && !this.levelWarnings.has(warning)) {
+      this.levelWarnings.add(warning);
+      console.log(`⚠️ Input level warning: ${warning}`);
+      this.delegate?.onInputLevelWarning(warning);
+    }
+  }
+
+  private closeSilentRange(end: number): void {
+    if (this.silenceStart === null) return;
+
+    if (end - this.silenceStart >= this.config.minSilentRangeSeconds) {
+      this.silentRanges.push({ start: this.silenceStart, end });
+    }
+    this.silenceStart = null;
+  }
+
+  // Closes any trailing silence and merges ranges that touch, for upload metadata
+  private finalizeSilentRanges(): SilentRange[] {
+    this.closeSilentRange(this.getElapsedMillis() / 1000);
+
+    const merged: SilentRange[] = [];
+    for (const range of this.silentRanges) {
+      const previous = merged[merged.length - 1];
+      if (previous && range.start <= previous.end) {
+        previous.end = Math.max(previous.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    return merged;
+  }
+
+  private resetSilenceTracking(): void {
+    this.silenceStart = null;
+    this.silentRanges = [];
+    this.silenceTimeoutFired = false;
+    this.mutedSamples = 0;
+    this.clippingSamples = 0;
+    this.levelWarnings.clear();
+  }
+
+  // Duration and storage guard
+  private startLimitGuard(): void {
+    this.stopLimitGuard();
+    this.warnedLimits.clear();
+    this.limitReached = false;
+    this.limitTimer = setInterval(() => {
+      this.checkLimits().catch(error => console.warn('Limit check failed:', error));
+    }, this.config.limitCheckIntervalSeconds * 1000);
+  }
+
+  private stopLimitGuard(): void {
+    if (this.limitTimer) {
+      clearInterval(this.limitTimer);
+      this.limitTimer = null;
+    }
+  }
+
+  private async checkLimits(): Promise<void> {
+    if (!this.session || this.limitReached) return;
+
+    const maxSeconds = this.config.maxDurationMinutes * 60;
+    if (maxSeconds > 0) {
+      const remainingSeconds = maxSeconds - this.getElapsedMillis() / 1000;
+      if (remainingSeconds <= 0) {
+        this.reachLimit('maxDuration');
+        return;
+      }
+      if (remainingSeconds <= this.config.limitWarningMinutes * 60) {
+        this.warnLimit('maxDuration', remainingSeconds);
+      }
+    }
+
+    const freeMB = (await FileSystem.getFreeDiskStorageAsync()) / (1024 * 1024);
+    const headroomMB = freeMB - this.config.minFreeSpaceMB;
+    if (headroomMB <= 0) {
+      this.reachLimit('lowStorage');
+    } else if (headroomMB <= this.config.freeSpaceWarningMB) {
+      this.warnLimit('lowStorage', headroomMB);
+    }
+  }
+
+  private warnLimit(reason: LimitReason, remaining: number): void {
+    if (this.warnedLimits.has(reason)) return;
+
+    this.warnedLimits.add(reason);
+    console.log(`⚠️ Approaching recording limit: ${reason}`);
+    this.delegate?.onRecordingLimitWarning(reason, remaining);
+  }
+
+  private reachLimit(reason: LimitReason): void {
+    this.limitReached = true;
+    this.stopLimitGuard();
+    console.log(`🛑 Recording limit reached: ${reason}`);
+    this.delegate?.onRecordingLimitReached(reason);
+  }
+
+  // Segment rotation
+  private startSegmentTimer(): void {
+    this.stopSegmentTimer();
+    this.segmentTimer = setInterval(() => {
+      if (this.isPaused || this.isInterrupted || this.rotation) {
+        return; // Try again on the next tick
+      }
+      this.rotation = this.rotateSegment().finally(() => {
+        this.rotation = null;
+      });
+    }, this.config.segmentDurationMinutes * 60 * 1000);
+  }
+
+  private stopSegmentTimer(): void {
+    if (this.segmentTimer) {
+      clearInterval(this.segmentTimer);
+      this.segmentTimer = null;
+    }
+  }
+
+  private async rotateSegment(): Promise<void> {
+    if (!this.recording || !this.session) return;
+
+    try {
+      console.log('🔁 Rotating recording segment...');
+      this.recording.setOnRecordingStatusUpdate(null);
+      await this.recording.stopAndUnloadAsync();
+      const startOffset = this.getElapsedMillis() / 1000;
+
+      this.recording = await this.createRecording();
+      await this.recording.startAsync();
+      this.addSegment(this.recording.getURI(), startOffset);
+      await this.saveSession();
+
+      console.log(`✅ Started segment ${this.session.segments.length}`);
+    } catch (error) {
+      // Completed segments stay in the manifest until the delegate stops and saves them
+      console.error('❌ Segment rotation failed:', error);
+      // A prepared recorder that never started still holds the audio session
+      if (this.recording) {
+        this.recording.setOnRecordingStatusUpdate(null);
+        try {
+          await this.recording.stopAndUnloadAsync();
+        } catch (cleanupError) {
+          // Ignore cleanup errors
+        }
+      }
+      this.recording = null;
+      this.stopSegmentTimer();
+      this.delegate?.onRecordingFailed();
+    }
+  }
+
+  private addSegment(uri: string | null, startOffset: number, startedAt = Date.now()): void {
+    if (!this.session || !uri) return;
+
+    this.session.segments.push({
+      uri,
+      index: this.session.segments.length,
+      startedAt,
+      startOffset,
+    });
+  }
+
+  private async prepareAudioSession(): Promise<boolean> {
+    // Request permissions
+    const { status } = await Audio.requestPermissionsAsync();
+    if (status !== 'granted') {
+      console.error('Audio recording permission not granted');
+      return false;
+    }
+
+    // Set audio mode for recording - minimal config for iOS
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+    });
+    return true;
+  }
+
+  // Create and prepare a recording with retry logic for state conflicts
+  private async createRecording(): Promise<Audio.Recording> {
+    let retryCount = 0;
+    while (true) {
+      const recording = new Audio.Recording();
+      try {
+        await recording.prepareToRecordAsync(getRecordingProfile(this.config.profile).options);
+        recording.setProgressUpdateInterval(this.STATUS_INTERVAL_MS);
+        recording.setOnRecordingStatusUpdate(this.handleStatusUpdate);
+        return recording;
+      } catch (prepareError) {
+        console.warn(`Recording prepare attempt ${retryCount + 1} failed:`, prepareError);
+
+        // Clean up failed recording object
+        try {
+          await recording.stopAndUnloadAsync();
+        } catch (cleanupError) {
+          // Ignore cleanup errors
+        }
+
+        retryCount++;
+        if (retryCount >= 3) {
+          throw prepareError; // Re-throw if all retries failed
+        }
+
+        // Wait briefly before retry
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+  }
+
+  // Settings saved from SettingsView override the defaults for each new recording
+  private async loadSavedSettings(): Promise<void> {
+    try {
+      const profile = await AsyncStorage.getItem('recording_profile');
+      if (profile) {
+        this.config.profile = getRecordingProfile(profile).id;
+      }
+
+      const silenceTimeout = await AsyncStorage.getItem('silence_timeout_seconds');
+      if (silenceTimeout !== null) {
+        this.config.silenceTimeoutSeconds = Number(silenceTimeout) || 0;
+      }
+
+      const preRoll = await AsyncStorage.getItem('preroll_seconds');
+      if (preRoll !== null) {
+        this.config.preRollSeconds = Number(preRoll) || defaultConfig.preRollSeconds;
+      }
+
+      const maxDuration = await AsyncStorage.getItem('max_duration_minutes');
+      if (maxDuration !== null) {
+        this.config.maxDurationMinutes = Number(maxDuration) || 0;
+      }
+
+      const minFreeSpace = await AsyncStorage.getItem('min_free_space_mb');
+      if (minFreeSpace !== null) {
+        this.config.minFreeSpaceMB = Number(minFreeSpace) || 0;
+      }
+    } catch (error) {
+      console.warn('Failed to load recorder settings:', error);
+    }
+  }
+
+  // Session manifest persistence
+  private async saveSession(): Promise<void> {
+    if (!this.session) return;
+
+    try {
+      this.session.bookmarks = [...this.bookmarks];
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.session));
+    } catch (error) {
+      console.error('Failed to save recording session:', error);
+    }
+  }
+
+  private async clearSession(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to clear recording session:', error);
+    }
+  }
+
+  // Returns a session left behind by a previous launch, limited to segments still on disk
+  async getUnfinishedSession(): Promise<RecordingSession | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return null;
+
+      const session: RecordingSession = JSON.parse(stored);
+      if (this.session?.id === session.id) return null;
+      session.bookmarks = normalizeBookmarks(session.bookmarks);
+
+      const segments: RecordingSegment[] = [];
+      for (const segment of session.segments) {
+        const fileInfo = await FileSystem.getInfoAsync(segment.uri);
+        if (fileInfo.exists) {
+          segments.push(segment);
+        }
+      }
+
+      if (segments.length === 0) {
+        await this.clearSession();
+        return null;
+      }
+
+      return { ...session, segments };
+    } catch (error) {
+      console.error('Failed to load unfinished session:', error);
+      return null;
+    }
+  }
+
+  async discardUnfinishedSession(deleteFiles = false): Promise<void> {
+    if (this.session) return; // Never drop the manifest of the live recording
+
+    if (deleteFiles) {
+      const session = await this.getUnfinishedSession();
+      session?.segments.forEach(segment => {
+        FileSystem.deleteAsync(segment.uri, { idempotent: true }).catch(() => {
+          // Ignore errors when deleting discarded segments
+        });
+      });
+    }
+    await this.clearSession();
+  }
+
   // Force cleanup method with aggressive error handling
   private async forceCleanup(): Promise<void> {
+    this.stopSegmentTimer();
+    this.stopLimitGuard();
+    if (this.interruptionTimer) {
+      clearInterval(this.interruptionTimer);
+      this.interruptionTimer = null;
+    }
+    this.interruptedAt = null;
     if (this.recording) {
+      this.recording.setOnRecordingStatusUpdate(null);
       try {
         // Try to get status first to check if recording is valid
         const status = await this.recording.getStatusAsync();
@@ -170,12 +954,22 @@ export class RecorderService {
       }
       this.recording = null;
     }
+    this.session = null;
     this.fileUri = null;
     this.bookmarks = [];
+    this.pausedAt = null;
+    this.pausedDuration = 0;
+    this.resetSilenceTracking();
   }
 
   // Public cleanup method to ensure no lingering recordings
   async cleanup(): Promise<void> {
+    await this.stopBuffering();
     await this.forceCleanup();
   }
-}
\ No newline at end of file
+
+
+  updateConfig(newConfig: Partial<RecorderConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+}
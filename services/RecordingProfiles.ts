@@ -0,0 +1,115 @@
+import { Audio } from 'expo-av';
+
+export type RecordingProfileId = 'voiceMemo' | 'meeting' | 'lossless';
+
+export interface RecordingProfile {
+  id: RecordingProfileId;
+  label: string;
+  description: string;
+  options: Audio.RecordingOptions;
+}
+
+export interface AudioFormat {
+  extension: string;
+  mimeType: string;
+}
+
+export const DEFAULT_RECORDING_PROFILE: RecordingProfileId = 'meeting';
+
+export const RECORDING_PROFILES: Record<RecordingProfileId, RecordingProfile> = {
+  voiceMemo: {
+    id: 'voiceMemo',
+    label: 'Voice Memo',
+    description: 'Mono AAC, 32 kbps - smallest files',
+    options: {
+      isMeteringEnabled: true,
+      android: {
+        extension: '.m4a',
+        outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+        audioEncoder: Audio.AndroidAudioEncoder.AAC,
+        sampleRate: 22050,
+        numberOfChannels: 1,
+        bitRate: 32000,
+      },
+      ios: {
+        extension: '.m4a',
+        outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+        audioQuality: Audio.IOSAudioQuality.MEDIUM,
+        sampleRate: 22050,
+        numberOfChannels: 1,
+        bitRate: 32000,
+        linearPCMBitDepth: 16,
+        linearPCMIsBigEndian: false,
+        linearPCMIsFloat: false,
+      },
+      web: {
+        mimeType: 'audio/webm',
+        bitsPerSecond: 32000,
+      },
+    },
+  },
+  meeting: {
+    id: 'meeting',
+    label: 'Meeting',
+    description: 'Stereo AAC, 128 kbps',
+    options: {
+      ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
+      isMeteringEnabled: true,
+    },
+  },
+  lossless: {
+    id: 'lossless',
+    label: 'Lossless',
+    description: 'WAV/PCM on iOS, 256 kbps AAC on Android - large files',
+    options: {
+      isMeteringEnabled: true,
+      // Android's MediaRecorder cannot write PCM, so use the best AAC it offers
+      android: {
+        extension: '.m4a',
+        outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+        audioEncoder: Audio.AndroidAudioEncoder.AAC,
+        sampleRate: 48000,
+        numberOfChannels: 2,
+        bitRate: 256000,
+      },
+      ios: {
+        extension: '.wav',
+        outputFormat: Audio.IOSOutputFormat.LINEARPCM,
+        audioQuality: Audio.IOSAudioQuality.MAX,
+        sampleRate: 44100,
+        numberOfChannels: 1,
+        bitRate: 705600,
+        linearPCMBitDepth: 16,
+        linearPCMIsBigEndian: false,
+        linearPCMIsFloat: false,
+      },
+      web: {
+        mimeType: 'audio/webm',
+        bitsPerSecond: 256000,
+      },
+    },
+  },
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.m4a': 'audio/m4a',
+  '.wav': 'audio/wav',
+  '.caf': 'audio/x-caf',
+  '.3gp': 'audio/3gpp',
+  '.aac': 'audio/aac',
+  '.webm': 'audio/webm',
+};
+
+export function getRecordingProfile(id?: string | null): RecordingProfile {
+  return RECORDING_PROFILES[id as RecordingProfileId] || RECORDING_PROFILES[DEFAULT_RECORDING_PROFILE];
+}
+
+// The file extension is what the platform actually wrote, so it wins over the profile
+export function getAudioFormat(uri: string): AudioFormat {
+  const match = uri.split('?')[0].match(/\.[a-z0-9]+$/i);
+  const extension = match ? match[0].toLowerCase() : '.m4a';
+  return {
+    extension,
+    mimeType: MIME_TYPES[extension] || 'audio/m4a',
+  };
+}
@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { Bookmark, normalizeBookmarks } from './Bookmarks';
+import { UploadItem } from './UploadQueue';
+import { TranscriptSegment } from './TranscriptionService';
+import { BookmarkExcerpt } from './Excerpts';
+import { TranscriptionStatus } from './TranscriptionQueue';
+import { SpeakerNames } from './Speakers';
+import { TranscriptSummary } from './SummaryService';
+import { generateId } from './Abort';
+
+export type UploadStatus = UploadItem['status'];
+
+export interface RecordingEntry {
+  id: string;
+  path: string;
+  segments?: string[]; // all files of a rotated recording, in order; path is the first
+  segmentOffsets?: number[]; // seconds into the recording where each file starts
+  durationMillis?: number;
+  bookmarks: Bookmark[];
+  flagged: boolean;
+  transcript?: string;
+  transcriptSegments?: TranscriptSegment[]; // timed against the whole recording, not a single file
+  transcriptionStatus?: TranscriptionStatus;
+  language?: string; // transcription language chosen for this recording; the default setting when missing
+  detectedLanguage?: string; // ISO code reported with the last transcript
+  speakerNames?: SpeakerNames;
+  summary?: TranscriptSummary;
+  excerpts?: BookmarkExcerpt[];
+  tags?: string[];
+  uploadId?: string;
+  uploadStatus?: UploadStatus;
+  createdAt: number;
+}
+
+export type NewRecordingEntry = Omit<RecordingEntry, 'id' | 'createdAt'> & { createdAt?: number };
+
+export class RecordingStore {
+  private recordings: RecordingEntry[] = [];
+  private loaded: Promise<void>;
+  private readonly STORAGE_KEY = 'recording_store';
+  private readonly MIGRATION_KEY = 'recording_store_migrated';
+
+  constructor() {
+    this.loaded = this.loadRecordings();
+  }
+
+  async add(entry: NewRecordingEntry): Promise<RecordingEntry> {
+    await this.loaded;
+
+    const recording: RecordingEntry = {
+      ...entry,
+      id: generateId(),
+      createdAt: entry.createdAt || Date.now(),
+    };
+
+    this.recordings.push(recording);
+    await this.saveRecordings();
+
+    console.log('Cataloged recording:', recording.id);
+    return recording;
+  }
+
+  async update(id: string, changes: Partial<Omit<RecordingEntry, 'id'>>): Promise<RecordingEntry | null> {
+    await this.loaded;
+
+    const recording = this.recordings.find(existing => existing.id === id);
+    if (!recording) {
+      return null;
+    }
+
+    Object.assign(recording, changes);
+    await this.saveRecordings();
+    return recording;
+  }
+
+  // Deletes the entry and its audio files
+  async remove(id: string): Promise<boolean> {
+    await this.loaded;
+
+    const recording = this.recordings.find(existing => existing.id === id);
+    if (!recording) {
+      return false;
+    }
+
+    this.recordings = this.recordings.filter(existing => existing.id !== id);
+    await this.saveRecordings();
+
+    const files = recording.segments?.length ? recording.segments : [recording.path];
+    await Promise.all(files.map(path =>
+      FileSystem.deleteAsync(path, { idempotent: true }).catch(error => {
+        console.warn(`Failed to delete ${path}:`, error);
+      })
+    ));
+
+    console.log('Deleted recording:', id);
+    return true;
+  }
+
+  // Newest first
+  async getAll(): Promise<RecordingEntry[]> {
+    await this.loaded;
+    return [...this.recordings].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(id: string): Promise<RecordingEntry | undefined> {
+    await this.loaded;
+    return this.recordings.find(recording => recording.id === id);
+  }
+
+  async syncUploadStatus(uploadId: string, uploadStatus: UploadStatus): Promise<void> {
+    await this.loaded;
+
+    const recording = this.recordings.find(existing => existing.uploadId === uploadId);
+    if (recording && recording.uploadStatus !== uploadStatus) {
+      recording.uploadStatus = uploadStatus;
+      await this.saveRecordings();
+    }
+  }
+
+  // One-time import of recordings that only exist as upload queue items
+  async migrateFromUploadQueue(items: UploadItem[]): Promise<number> {
+    await this.loaded;
+
+    try {
+      if (await AsyncStorage.getItem(this.MIGRATION_KEY)) {
+        return 0;
+      }
+
+      const known = new Set(this.recordings.map(recording => recording.uploadId));
+      const imported = items.filter(item => !known.has(item.id));
+      imported.forEach(item => {
+        this.recordings.push({
+          id: generateId(),
+          path: item.path,
+          segments: item.segments,
+          bookmarks: normalizeBookmarks(item.bookmarks),
+          flagged: item.flagged,
+          uploadId: item.id,
+          uploadStatus: item.status,
+          createdAt: item.createdAt,
+        });
+      });
+
+      await this.saveRecordings();
+      await AsyncStorage.setItem(this.MIGRATION_KEY, 'true');
+
+      if (imported.length > 0) {
+        console.log(`Migrated ${imported.length} recordings from upload queue`);
+      }
+      return imported.length;
+    } catch (error) {
+      console.error('Failed to migrate upload queue into recording store:', error);
+      return 0;
+    }
+  }
+
+  private async loadRecordings(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        this.recordings = JSON.parse(stored);
+        console.log(`Loaded ${this.recordings.length} recordings from store`);
+      }
+    } catch (error) {
+      console.error('Failed to load recording store:', error);
+    }
+  }
+
+  private async saveRecordings(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.recordings));
+    } catch (error) {
+      console.error('Failed to save recording store:', error);
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { RecordingEntry } from './RecordingStore';
+
+export type SearchField = 'transcript' | 'bookmark' | 'tag';
+
+export interface SearchResult {
+  recording: RecordingEntry;
+  field: SearchField;
+  snippet: string;
+  positionMillis?: number; // where the match is heard, when the transcript or bookmark has a time
+  score: number; // number of query words matched by the best field
+}
+
+// One searchable piece of a recording: a transcript segment, a bookmark label or a tag
+interface IndexedDocument {
+  recordingId: string;
+  field: SearchField;
+  text: string;
+  positionMillis?: number;
+}
+
+const SNIPPET_RADIUS = 60;
+
+export class SearchIndex {
+  private recordings = new Map<string, RecordingEntry>();
+  private documents: IndexedDocument[] = [];
+  private terms = new Map<string, Set<number>>(); // term -> document indexes
+
+  build(recordings: RecordingEntry[]): void {
+    this.recordings.clear();
+    this.documents = [];
+    this.terms.clear();
+
+    recordings.forEach(recording => {
+      this.recordings.set(recording.id, recording);
+
+      if (recording.transcriptSegments?.length) {
+        recording.transcriptSegments.forEach(segment => {
+          this.addDocument({
+            recordingId: recording.id,
+            field: 'transcript',
+            text: segment.text,
+            positionMillis: segment.start * 1000,
+          });
+        });
+      } else if (recording.transcript) {
+        this.addDocument({ recordingId: recording.id, field: 'transcript', text: recording.transcript });
+      }
+
+      recording.bookmarks.forEach(bookmark => {
+        if (bookmark.label) {
+          this.addDocument({
+            recordingId: recording.id,
+            field: 'bookmark',
+            text: bookmark.label,
+            positionMillis: bookmark.offset * 1000,
+          });
+        }
+      });
+
+      recording.tags?.forEach(tag => {
+        this.addDocument({ recordingId: recording.id, field: 'tag', text: tag });
+      });
+    });
+  }
+
+  // Every query word must appear in the recording (as a word prefix); the best matching
+  // piece of the recording decides the snippet and the position to open at
+  search(query: string): SearchResult[] {
+    const queryTerms = tokenize(query);
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const matchesByTerm = queryTerms.map(term => this.findDocuments(term));
+    const matchedTerms = new Map<number, Set<number>>(); // document index -> query term indexes
+    matchesByTerm.forEach((documentIndexes, termIndex) => {
+      documentIndexes.forEach(documentIndex => {
+        if (!matchedTerms.has(documentIndex)) {
+          matchedTerms.set(documentIndex, new Set());
+        }
+        matchedTerms.get(documentIndex)!.add(termIndex);
+      });
+    });
+
+    const byRecording = new Map<string, { covered: Set<number>; best?: number; bestScore: number }>();
+    matchedTerms.forEach((termIndexes, documentIndex) => {
+      const document = this.documents[documentIndex];
+      const entry = byRecording.get(document.recordingId) || { covered: new Set<number>(), bestScore: 0 };
+      termIndexes.forEach(termIndex => entry.covered.add(termIndex));
+
+      const isEarlier = entry.best !== undefined
+        && (document.positionMillis ?? Infinity) < (this.documents[entry.best].positionMillis ?? Infinity);
+      if (termIndexes.size > entry.bestScore || (termIndexes.size === entry.bestScore && isEarlier)) {
+        entry.best = documentIndex;
+        entry.bestScore = termIndexes.size;
+      }
+      byRecording.set(document.recordingId, entry);
+    });
+
+    const results: SearchResult[] = [];
+    byRecording.forEach((entry, recordingId) => {
+      const recording = this.recordings.get(recordingId);
+      if (!recording || entry.best === undefined || entry.covered.size < queryTerms.length) {
+        return;
+      }
+
+      const document = this.documents[entry.best];
+      results.push({
+        recording,
+        field: document.field,
+        snippet: makeSnippet(document.text, queryTerms),
+        positionMillis: document.positionMillis,
+        score: entry.bestScore,
+      });
+    });
+
+    return results.sort((a, b) => b.score - a.score || b.recording.createdAt - a.recording.createdAt);
+  }
+
+  private addDocument(document: IndexedDocument): void {
+    const documentIndex = this.documents.push(document) - 1;
+    tokenize(document.text).forEach(term => {
+      if (!this.terms.has(term)) {
+        this.terms.set(term, new Set());
+      }
+      this.terms.get(term)!.add(documentIndex);
+    });
+  }
+
+  private findDocuments(queryTerm: string): Set<number> {
+    const found = new Set<number>();
+    this.terms.forEach((documentIndexes, term) => {
+      if (term.startsWith(queryTerm)) {
+        documentIndexes.forEach(documentIndex => found.add(documentIndex));
+      }
+    });
+    return found;
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 0);
+}
+
+// Short excerpt around the first query word so long transcripts stay readable in a list
+function makeSnippet(text: string, queryTerms: string[]): string {
+  if (text.length <= SNIPPET_RADIUS * 2) {
+    return text;
+  }
+
+  const lower = text.toLowerCase();
+  const hit = queryTerms
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(text.length, hit + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,65 @@
+import { TranscriptSegment } from './TranscriptionService';
+
+// Names the user gave a recording's speakers, by the id the provider assigned them
+export type SpeakerNames = Record<string, string>;
+
+// Consecutive segments from one speaker, shown as a single turn of the conversation
+export interface SpeakerTurn {
+  speaker: string;
+  name: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export function hasSpeakers(segments: TranscriptSegment[] | undefined): boolean {
+  return !!segments?.some(segment => segment.speaker);
+}
+
+// In order of first appearance
+export function listSpeakers(segments: TranscriptSegment[] | undefined): string[] {
+  const speakers: string[] = [];
+  segments?.forEach(segment => {
+    if (segment.speaker && !speakers.includes(segment.speaker)) {
+      speakers.push(segment.speaker);
+    }
+  });
+  return speakers;
+}
+
+export function getSpeakerName(speaker: string, names?: SpeakerNames): string {
+  return names?.[speaker]?.trim() || `Speaker ${speaker}`;
+}
+
+// Speakers given the same name are treated as one person, so renaming can merge them
+export function groupSpeakerTurns(segments: TranscriptSegment[], names?: SpeakerNames): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  segments.forEach(segment => {
+    const previous = turns[turns.length - 1];
+    const name = segment.speaker ? getSpeakerName(segment.speaker, names) : previous?.name;
+    if (previous && name === previous.name) {
+      previous.end = segment.end;
+      previous.text = `${previous.text} ${segment.text.trim()}`;
+      return;
+    }
+
+    turns.push({
+      speaker: segment.speaker || '',
+      name: name || 'Unknown speaker',
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+    });
+  });
+
+  return turns;
+}
+
+// Providers label speakers per request, so "A" in two separately transcribed parts of a
+// recording may be two different people. Prefixing the part keeps them apart until renamed.
+export function scopeSpeakers(segments: TranscriptSegment[], part: number): TranscriptSegment[] {
+  return segments.map(segment =>
+    segment.speaker ? { ...segment, speaker: `${part + 1}-${segment.speaker}` } : segment
+  );
+}
@@ -0,0 +1,163 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BookmarkExcerpt } from './Excerpts';
+import { fetchWithTimeout } from './Abort';
+
+export interface TranscriptSummary {
+  title: string;
+  summary: string;
+  actionItems: string[];
+  model: string;
+  createdAt: number;
+}
+
+export interface SummaryInput {
+  transcript: string; // speaker-attributed when the provider separated speakers
+  excerpts: BookmarkExcerpt[];
+  flagged: boolean;
+}
+
+// Any OpenAI-compatible chat completions server, so a local model can stand in for the cloud
+export interface SummarySettings {
+  enabled: boolean;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export const DEFAULT_SUMMARY_SETTINGS: SummarySettings = {
+  enabled: false,
+  baseUrl: 'https://api.openai.com/v1',
+  model: 'gpt-4o-mini',
+  apiKey: '',
+};
+
+const SETTINGS_KEYS = {
+  enabled: 'summary_enabled',
+  baseUrl: 'summary_base_url',
+  model: 'summary_model',
+  apiKey: 'summary_api_key',
+};
+
+// Local models on modest hardware can take a while on a long transcript
+const REQUEST_TIMEOUT_MS = 2 * 60 * 1000;
+
+const SYSTEM_PROMPT = [
+  'You summarize transcripts of voice recordings.',
+  'Reply with only a JSON object of the form',
+  '{"title": string, "summary": string, "actionItems": string[]}.',
+  'The title is at most eight words. The summary is a short paragraph.',
+  'Action items are concrete tasks someone agreed to or was asked to do; use an empty list if there are none.',
+  'Bookmarked moments were marked as important by the speaker while recording.',
+].join(' ');
+
+// Local-only transcription also keeps transcripts on the network: loopback, private ranges and .local names
+export function isLocalBaseUrl(baseUrl: string): boolean {
+  const match = baseUrl.trim().match(/^[a-z]+:\/\/(\[[^\]]+\]|[^/:?#]+)/i);
+  if (!match) return false;
+
+  const host = match[1].toLowerCase();
+  return host === 'localhost'
+    || host === '[::1]'
+    || host.endsWith('.local')
+    || /^127\./.test(host)
+    || /^10\./.test(host)
+    || /^192\.168\./.test(host)
+    || /^172\.(1[6-9]|2\d|3[01])\./.test(host);
+}
+
+export async function loadSummarySettings(): Promise<SummarySettings> {
+  try {
+    const [enabled, baseUrl, model, apiKey] = await Promise.all([
+      AsyncStorage.getItem(SETTINGS_KEYS.enabled),
+      AsyncStorage.getItem(SETTINGS_KEYS.baseUrl),
+      AsyncStorage.getItem(SETTINGS_KEYS.model),
+      AsyncStorage.getItem(SETTINGS_KEYS.apiKey),
+    ]);
+    return {
+      enabled: enabled === 'true',
+      baseUrl: baseUrl || DEFAULT_SUMMARY_SETTINGS.baseUrl,
+      model: model || DEFAULT_SUMMARY_SETTINGS.model,
+      apiKey: apiKey || '',
+    };
+  } catch (error) {
+    console.error('Failed to load summary settings:', error);
+    return DEFAULT_SUMMARY_SETTINGS;
+  }
+}
+
+export async function saveSummarySettings(settings: SummarySettings): Promise<void> {
+  await AsyncStorage.setItem(SETTINGS_KEYS.enabled, settings.enabled ? 'true' : 'false');
+  await AsyncStorage.setItem(SETTINGS_KEYS.baseUrl, settings.baseUrl.trim());
+  await AsyncStorage.setItem(SETTINGS_KEYS.model, settings.model.trim());
+  await AsyncStorage.setItem(SETTINGS_KEYS.apiKey, settings.apiKey.trim());
+}
+
+export class SummaryService {
+  async summarize(input: SummaryInput, settings: SummarySettings, signal?: AbortSignal): Promise<TranscriptSummary> {
+    const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+    console.log('📋 Summarizing transcript via', baseUrl);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      // Local servers usually run without a key
+      headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetchWithTimeout(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: 0.2,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: buildPrompt(input) },
+        ],
+      }),
+    }, REQUEST_TIMEOUT_MS, signal);
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error?.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const content = result.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('Summary endpoint returned no message');
+    }
+
+    return { ...parseSummary(content), model: result.model || settings.model, createdAt: Date.now() };
+  }
+}
+
+function buildPrompt(input: SummaryInput): string {
+  const parts = [];
+  if (input.flagged) {
+    parts.push('The speaker flagged this whole recording as important.');
+  }
+  if (input.excerpts.length > 0) {
+    parts.push('Bookmarked moments:');
+    input.excerpts.forEach(excerpt => {
+      parts.push(`- ${excerpt.label ? `${excerpt.label}: ` : ''}${excerpt.text}`);
+    });
+  }
+  parts.push('Transcript:', input.transcript);
+  return parts.join('\n');
+}
+
+// Smaller local models often wrap the JSON in prose or a code fence
+function parseSummary(content: string): Omit<TranscriptSummary, 'model' | 'createdAt'> {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Summary endpoint did not return JSON');
+  }
+
+  const parsed = JSON.parse(content.slice(start, end + 1));
+  const actionItems: unknown[] = Array.isArray(parsed.actionItems) ? parsed.actionItems : [];
+  return {
+    title: String(parsed.title || '').trim(),
+    summary: String(parsed.summary || '').trim(),
+    actionItems: actionItems.map(item => String(item).trim()).filter(item => item.length > 0),
+  };
+}
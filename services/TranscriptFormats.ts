@@ -0,0 +1,208 @@
+import { RecordingEntry } from './RecordingStore';
+import { TranscriptSegment } from './TranscriptionService';
+import { Bookmark } from './Bookmarks';
+import { getLanguageName } from './Languages';
+import { getSpeakerName, groupSpeakerTurns, hasSpeakers } from './Speakers';
+
+export type ExportFormat = 'srt' | 'vtt' | 'markdown' | 'text';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  srt: { id: 'srt', label: 'SRT', extension: '.srt', mimeType: 'application/x-subrip' },
+  vtt: { id: 'vtt', label: 'WebVTT', extension: '.vtt', mimeType: 'text/vtt' },
+  markdown: { id: 'markdown', label: 'Markdown', extension: '.md', mimeType: 'text/markdown' },
+  text: { id: 'text', label: 'Plain Text', extension: '.txt', mimeType: 'text/plain' },
+};
+
+// Subtitle cues longer than this are hard to read, and AssemblyAI utterances can run for minutes
+const MAX_CUE_SECONDS = 7;
+const MAX_CUE_CHARS = 84;
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string; // display name
+}
+
+// Everything here is pure: the same recording always renders to the same text.
+// Files and sharing live in ExportService.
+export function renderTranscript(recording: RecordingEntry, format: ExportFormat): string {
+  switch (format) {
+    case 'srt': return formatSrt(recording);
+    case 'vtt': return formatWebVtt(recording);
+    case 'markdown': return formatMarkdown(recording);
+    case 'text': return formatPlainText(recording);
+  }
+}
+
+export function formatSrt(recording: RecordingEntry): string {
+  return buildCues(recording).map((cue, index) => [
+    String(index + 1),
+    `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+    cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text,
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+export function formatWebVtt(recording: RecordingEntry): string {
+  const cues = buildCues(recording).map(cue => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    cue.speaker ? `<v ${cue.speaker}>${cue.text}` : cue.text,
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function formatPlainText(recording: RecordingEntry): string {
+  const segments = recording.transcriptSegments || [];
+  if (hasSpeakers(segments)) {
+    return groupSpeakerTurns(segments, recording.speakerNames)
+      .map(turn => `${turn.name}: ${turn.text}`)
+      .join('\n\n') + '\n';
+  }
+  return `${(recording.transcript || '').trim()}\n`;
+}
+
+// Bookmarks become headings at the point in the transcript where they were set
+export function formatMarkdown(recording: RecordingEntry): string {
+  const lines: string[] = [];
+  const date = new Date(recording.createdAt).toLocaleString();
+
+  lines.push(`# ${recording.summary?.title || `Recording ${date}`}`, '');
+  lines.push(`- **Recorded:** ${date}`);
+  if (recording.durationMillis) {
+    lines.push(`- **Duration:** ${formatClock(recording.durationMillis / 1000)}`);
+  }
+  if (recording.detectedLanguage) {
+    lines.push(`- **Language:** ${getLanguageName(recording.detectedLanguage)}`);
+  }
+  if (recording.flagged) {
+    lines.push('- **Flagged** as important');
+  }
+  if (recording.tags?.length) {
+    lines.push(`- **Tags:** ${recording.tags.join(', ')}`);
+  }
+
+  if (recording.summary) {
+    lines.push('', '## Summary', '', recording.summary.summary);
+    if (recording.summary.actionItems.length > 0) {
+      lines.push('', '### Action Items', '');
+      recording.summary.actionItems.forEach(item => lines.push(`- [ ] ${item}`));
+    }
+  }
+
+  lines.push('', '## Transcript', '');
+
+  const segments = recording.transcriptSegments || [];
+  const bookmarks = [...recording.bookmarks].sort((a, b) => a.offset - b.offset);
+  if (segments.length === 0) {
+    // Without timings the bookmarks cannot be placed in the text
+    lines.push((recording.transcript || '').trim());
+    if (bookmarks.length > 0) {
+      lines.push('', '## Bookmarks', '');
+      bookmarks.forEach(bookmark => lines.push(`- ${formatBookmark(bookmark)}`));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  const blocks = hasSpeakers(segments)
+    ? groupSpeakerTurns(segments, recording.speakerNames).map(turn => ({
+        start: turn.start,
+        text: `**${turn.name}** (${formatClock(turn.start)}): ${turn.text}`,
+      }))
+    : segments.map(segment => ({ start: segment.start, text: segment.text.trim() }));
+
+  let nextBookmark = 0;
+  blocks.forEach(block => {
+    while (nextBookmark < bookmarks.length && bookmarks[nextBookmark].offset <= block.start) {
+      lines.push(`### ${formatBookmark(bookmarks[nextBookmark])}`, '');
+      nextBookmark++;
+    }
+    lines.push(block.text, '');
+  });
+  // Bookmarks set after the last words
+  bookmarks.slice(nextBookmark).forEach(bookmark => lines.push(`### ${formatBookmark(bookmark)}`, ''));
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// Cues follow segment boundaries, cut further at word level when a segment is too long to read
+export function buildCues(recording: RecordingEntry): SubtitleCue[] {
+  const segments = recording.transcriptSegments || [];
+  if (segments.length === 0 && recording.transcript) {
+    // A transcript without timings becomes a single cue over the whole recording
+    const end = (recording.durationMillis || 0) / 1000;
+    return [{ start: 0, end: end || 1, text: recording.transcript.trim() }];
+  }
+
+  const cues: SubtitleCue[] = [];
+  segments.forEach(segment => {
+    const speaker = segment.speaker ? getSpeakerName(segment.speaker, recording.speakerNames) : undefined;
+    splitSegment(segment).forEach(cue => cues.push({ ...cue, speaker }));
+  });
+  return cues;
+}
+
+function splitSegment(segment: TranscriptSegment): SubtitleCue[] {
+  const words = segment.words || [];
+  const fits = segment.end - segment.start <= MAX_CUE_SECONDS && segment.text.length <= MAX_CUE_CHARS;
+  if (fits || words.length === 0) {
+    return [{ start: segment.start, end: segment.end, text: segment.text.trim() }];
+  }
+
+  const cues: SubtitleCue[] = [];
+  let current: typeof words = [];
+  const flush = () => {
+    if (current.length > 0) {
+      cues.push({
+        start: current[0].start,
+        end: current[current.length - 1].end,
+        text: current.map(word => word.text).join(' '),
+      });
+      current = [];
+    }
+  };
+
+  words.forEach(word => {
+    if (current.length > 0) {
+      const length = current.map(item => item.text).join(' ').length + word.text.length + 1;
+      if (word.end - current[0].start > MAX_CUE_SECONDS || length > MAX_CUE_CHARS) {
+        flush();
+      }
+    }
+    current.push(word);
+  });
+  flush();
+
+  return cues;
+}
+
+function formatBookmark(bookmark: Bookmark): string {
+  const icon = bookmark.kind === 'flagged' ? '🚩' : bookmark.kind === 'auto' ? '✨' : '📍';
+  return `${icon} ${formatClock(bookmark.offset)}${bookmark.label ? ` ${bookmark.label}` : ''}`;
+}
+
+// 00:01:02,345 for SRT, 00:01:02.345 for WebVTT
+export function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMillis = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMillis / 3600000);
+  const minutes = Math.floor((totalMillis % 3600000) / 60000);
+  const secs = Math.floor((totalMillis % 60000) / 1000);
+  const millis = totalMillis % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis, 3)}`;
+}
+
+function formatClock(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const padded = `${minutes.toString().padStart(hours ? 2 : 1, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours ? `${hours}:${padded}` : padded;
+}
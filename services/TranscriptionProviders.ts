@@ -0,0 +1,178 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TranscriptionResult } from './TranscriptionService';
+import { getAudioFormat } from './RecordingProfiles';
+import { Correction } from './Vocabulary';
+
+// One input in a provider's settings form; the key doubles as its AsyncStorage key
+export interface ProviderSettingField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  hint?: string;
+  secure?: boolean;
+  required?: boolean;
+}
+
+export type ProviderSettings = Record<string, string>;
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  message: string;
+}
+
+export interface TranscribeOptions {
+  language?: string; // ISO code, or 'auto' to let the provider detect it
+  glossary?: string[]; // names and terms the provider should expect to hear
+  corrections?: Correction[]; // for providers that can fix spellings themselves
+  signal?: AbortSignal; // aborted when the user cancels; return cancelledResult() then
+  // Called once the provider has a server-side job that can be picked up again after a restart
+  onRemoteJob?(remoteId: string): void;
+}
+
+export interface TranscriptionProvider {
+  id: string;
+  label: string;
+  description?: string;
+  settingsSchema: ProviderSettingField[];
+  // Larger files are split into chunks before they are sent
+  maxFileSizeBytes?: number;
+  // Published price in USD, for usage estimates; self-hosted providers leave it out
+  costPerMinute?: number;
+  // Audio only goes to a server the user runs; the only kind used when local-only is on
+  selfHosted?: boolean;
+  // Defaults to "every required field is filled in"
+  isConfigured?(settings: ProviderSettings): boolean;
+  transcribe(audioUri: string, settings: ProviderSettings, options?: TranscribeOptions): Promise<TranscriptionResult>;
+  // Fetches the result of a job reported through onRemoteJob
+  resume?(remoteId: string, settings: ProviderSettings, options?: TranscribeOptions): Promise<TranscriptionResult>;
+  // Offered in Settings when present; should not send any audio
+  testConnection?(settings: ProviderSettings): Promise<ConnectionTestResult>;
+}
+
+const PROVIDER_ORDER_KEY = 'provider_order';
+const LOCAL_ONLY_KEY = 'transcription_local_only';
+const LEGACY_PREFERRED_PROVIDER_KEY = 'preferred_provider';
+
+class ProviderRegistry {
+  private providers = new Map<string, TranscriptionProvider>();
+
+  register(provider: TranscriptionProvider): void {
+    if (this.providers.has(provider.id)) {
+      console.warn(`Transcription provider ${provider.id} registered twice, replacing it`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): TranscriptionProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  // In registration order
+  getAll(): TranscriptionProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+export const transcriptionProviders = new ProviderRegistry();
+
+export function cancelledResult(providerId: string): TranscriptionResult {
+  return { text: '', error: 'Cancelled', cancelled: true, provider: providerId };
+}
+
+export function isProviderConfigured(provider: TranscriptionProvider, settings: ProviderSettings): boolean {
+  if (provider.isConfigured) {
+    return provider.isConfigured(settings);
+  }
+  return provider.settingsSchema
+    .filter(field => field.required)
+    .every(field => !!settings[field.key]?.trim());
+}
+
+export async function loadProviderSettings(provider: TranscriptionProvider): Promise<ProviderSettings> {
+  const settings: ProviderSettings = {};
+  for (const field of provider.settingsSchema) {
+    settings[field.key] = (await AsyncStorage.getItem(field.key)) || '';
+  }
+  return settings;
+}
+
+export async function saveProviderSettings(provider: TranscriptionProvider, settings: ProviderSettings): Promise<void> {
+  for (const field of provider.settingsSchema) {
+    await AsyncStorage.setItem(field.key, (settings[field.key] || '').trim());
+  }
+}
+
+export async function clearProviderSettings(): Promise<void> {
+  for (const provider of transcriptionProviders.getAll()) {
+    for (const field of provider.settingsSchema) {
+      await AsyncStorage.removeItem(field.key);
+    }
+  }
+  await AsyncStorage.removeItem(PROVIDER_ORDER_KEY);
+  await AsyncStorage.removeItem(LEGACY_PREFERRED_PROVIDER_KEY);
+}
+
+// Fallback order: the saved list first, then any provider registered since it was saved.
+// Before the list existed only a single preferred provider was stored.
+export async function getProviderOrder(): Promise<string[]> {
+  const registered = transcriptionProviders.getAll().map(provider => provider.id);
+  let saved: string[] = [];
+
+  try {
+    const stored = await AsyncStorage.getItem(PROVIDER_ORDER_KEY);
+    if (stored) {
+      saved = JSON.parse(stored);
+    } else {
+      const legacy = await AsyncStorage.getItem(LEGACY_PREFERRED_PROVIDER_KEY);
+      if (legacy) saved = [legacy];
+    }
+  } catch (error) {
+    console.error('Failed to load provider order:', error);
+  }
+
+  const known = saved.filter(id => registered.includes(id));
+  return [...known, ...registered.filter(id => !known.includes(id))];
+}
+
+// A FormData file part for the recording, from a web blob URL or a native file URI
+export async function prepareAudioFile(audioUri: string): Promise<{ file: Blob; fileName: string }> {
+  const format = getAudioFormat(audioUri);
+  const fileName = `recording${format.extension}`;
+
+  if (audioUri.startsWith('blob:')) {
+    console.log('Converting blob URL to blob...');
+    const response = await fetch(audioUri);
+    const blob = await response.blob();
+    console.log('Blob converted, size:', blob.size, 'type:', blob.type);
+    return { file: blob, fileName };
+  }
+
+  // For native, create a proper file reference
+  return {
+    file: {
+      uri: audioUri,
+      type: format.mimeType,
+      name: fileName,
+    } as any,
+    fileName,
+  };
+}
+
+export async function saveProviderOrder(order: string[]): Promise<void> {
+  await AsyncStorage.setItem(PROVIDER_ORDER_KEY, JSON.stringify(order));
+}
+
+// When on, cloud providers are never tried, not even as a fallback
+export async function loadLocalOnly(): Promise<boolean> {
+  try {
+    return (await AsyncStorage.getItem(LOCAL_ONLY_KEY)) === 'true';
+  } catch (error) {
+    console.error('Failed to load local-only setting:', error);
+    // Fail closed rather than send audio to the cloud
+    return true;
+  }
+}
+
+export async function saveLocalOnly(localOnly: boolean): Promise<void> {
+  await AsyncStorage.setItem(LOCAL_ONLY_KEY, localOnly ? 'true' : 'false');
+}
@@ -0,0 +1,375 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  RemoteTranscriptionJob,
+  TranscriptionResult,
+  TranscriptionService,
+  TranscriptSegment,
+  offsetSegments,
+} from './TranscriptionService';
+import { scopeSpeakers } from './Speakers';
+import { calculateRetryDelay, generateId } from './Abort';
+
+export type TranscriptionStatus = 'pending' | 'transcribing' | 'completed' | 'failed' | 'cancelled';
+
+export interface TranscriptionJob {
+  id: string;
+  recordingId: string;
+  files: string[]; // segment files of the recording, in order
+  segmentOffsets: number[]; // seconds into the recording where each file starts
+  language?: string; // override for this recording; the saved default when missing
+  manual?: boolean; // started by hand, so it runs even while auto-transcription is paused
+  results: TranscriptionResult[]; // one per finished file, so a retry continues where it stopped
+  remoteJob?: RemoteTranscriptionJob; // provider job for the next file, resumable after a restart
+  retries: number;
+  createdAt: number;
+  status: TranscriptionStatus;
+  error?: string;
+}
+
+export interface TranscriptionQueueEvents {
+  onTranscriptionStatusChange(job: TranscriptionJob): void;
+  onTranscriptionComplete(job: TranscriptionJob, result: TranscriptionResult): void;
+  // Checked before each job that was not started by hand; such jobs wait while it returns true
+  isAutoTranscriptionPaused(): Promise<boolean>;
+}
+
+export interface TranscriptionQueueConfig {
+  maxRetries: number;
+  retryDelay: number; // base delay in milliseconds
+  maxRetryDelay: number; // maximum delay cap
+  cleanupAfterDays: number;
+}
+
+const defaultConfig: TranscriptionQueueConfig = {
+  maxRetries: 5,
+  retryDelay: 5000, // 5 seconds
+  maxRetryDelay: 5 * 60 * 1000, // 5 minutes
+  cleanupAfterDays: 7,
+};
+
+export class TranscriptionQueue {
+  private config: TranscriptionQueueConfig;
+  private transcription: TranscriptionService;
+  private isProcessing = false;
+  private delegate: TranscriptionQueueEvents | null = null;
+  private loaded: Promise<void>;
+  private queue: TranscriptionJob[] = [];
+  private activeJob: { id: string; controller: AbortController } | null = null;
+  private readonly STORAGE_KEY = 'transcription_queue';
+
+  constructor(transcription: TranscriptionService, config?: Partial<TranscriptionQueueConfig>) {
+    this.transcription = transcription;
+    this.config = { ...defaultConfig, ...config };
+    this.loaded = this.loadQueue();
+  }
+
+  setDelegate(delegate: TranscriptionQueueEvents): void {
+    this.delegate = delegate;
+  }
+
+  // Replaces a job still waiting for the same recording; returns null while one is being transcribed,
+  // which has to be cancelled first
+  async enqueue(
+    recordingId: string,
+    files: string[],
+    segmentOffsets: number[] = [],
+    language?: string,
+    manual = false
+  ): Promise<string | null> {
+    await this.loaded;
+
+    if (this.queue.some(job => job.recordingId === recordingId && job.status === 'transcribing')) {
+      console.log('Transcription already running for recording', recordingId);
+      return null;
+    }
+    this.queue = this.queue.filter(job =>
+      job.recordingId !== recordingId || job.status !== 'pending'
+    );
+
+    const job: TranscriptionJob = {
+      id: generateId(),
+      recordingId,
+      files,
+      segmentOffsets,
+      language,
+      manual: manual || undefined,
+      results: [],
+      retries: 0,
+      createdAt: Date.now(),
+      status: 'pending',
+    };
+
+    this.queue.push(job);
+    await this.saveQueue();
+    this.emitStatusChange(job);
+
+    console.log('Enqueued transcription:', job.id, 'for recording', recordingId);
+
+    if (!this.isProcessing) {
+      this.processQueue();
+    }
+
+    return job.id;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+
+    this.isProcessing = true;
+    console.log('Starting transcription queue processing...');
+
+    try {
+      while (true) {
+        // Retries and jobs resumed after a restart count against the budget too
+        const paused = await this.isAutoTranscriptionPaused();
+        const pendingJob = this.queue.find(job =>
+          job.status === 'pending' && job.retries < this.config.maxRetries && (job.manual || !paused)
+        );
+
+        if (!pendingJob) {
+          if (paused && this.queue.some(job => job.status === 'pending')) {
+            console.log('💸 Auto-transcription paused by the budget, leaving jobs waiting');
+          }
+          break; // No more jobs to process
+        }
+
+        await this.processJob(pendingJob);
+      }
+    } catch (error) {
+      console.error('Transcription queue processing error:', error);
+    } finally {
+      this.isProcessing = false;
+      console.log('Transcription queue processing stopped');
+    }
+  }
+
+  private async processJob(job: TranscriptionJob): Promise<void> {
+    console.log(`Processing transcription: ${job.id} (attempt ${job.retries + 1})`);
+
+    job.status = 'transcribing';
+    job.error = undefined;
+    await this.saveQueue();
+    this.emitStatusChange(job);
+
+    const controller = new AbortController();
+    this.activeJob = { id: job.id, controller };
+
+    try {
+      // Rotated recordings are transcribed file by file, keeping finished files across retries
+      while (job.results.length < job.files.length) {
+        const result = await this.transcribeNextFile(job, controller.signal);
+        if (result.cancelled || controller.signal.aborted) {
+          job.status = 'cancelled';
+          job.remoteJob = undefined;
+          console.log(`Transcription cancelled: ${job.id}`);
+          await this.saveQueue();
+          this.emitStatusChange(job);
+          return;
+        }
+        if (result.error) {
+          throw new Error(result.error);
+        }
+
+        job.results.push(result);
+        job.remoteJob = undefined;
+        await this.saveQueue();
+      }
+
+      job.status = 'completed';
+      console.log(`Transcription completed: ${job.id}`);
+      await this.saveQueue();
+      this.emitStatusChange(job);
+      this.emitComplete(job, this.combineResults(job));
+      return;
+    } catch (error) {
+      console.error(`Transcription failed for ${job.id}:`, error);
+      job.retries++;
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+
+      if (job.retries >= this.config.maxRetries) {
+        job.status = 'failed';
+        console.error(`Max retries reached for transcription ${job.id}, marking as failed`);
+      } else {
+        job.status = 'pending';
+        const delay = calculateRetryDelay(job.retries, this.config.retryDelay, this.config.maxRetryDelay);
+        console.log(`Will retry transcription ${job.id} in ${delay}ms`);
+
+        setTimeout(() => {
+          if (!this.isProcessing) {
+            this.processQueue();
+          }
+        }, delay);
+      }
+    } finally {
+      this.activeJob = null;
+    }
+
+    await this.saveQueue();
+    this.emitStatusChange(job);
+  }
+
+  private async isAutoTranscriptionPaused(): Promise<boolean> {
+    try {
+      return (await this.delegate?.isAutoTranscriptionPaused()) || false;
+    } catch (error) {
+      console.error('Budget check failed:', error);
+      return false;
+    }
+  }
+
+  private async transcribeNextFile(job: TranscriptionJob, signal: AbortSignal): Promise<TranscriptionResult> {
+    const fileUri = job.files[job.results.length];
+
+    if (job.remoteJob) {
+      const resumed = await this.transcription.resumeRemoteJob(job.remoteJob, job.recordingId, signal);
+      if (!resumed.error || resumed.cancelled || resumed.remoteJobPending) {
+        // Still running or unreachable: keep the job and poll again on the next retry
+        return resumed;
+      }
+      // The provider failed or expired the job; start over with the audio
+      console.warn(`Could not resume ${job.remoteJob.provider} job ${job.remoteJob.remoteId}:`, resumed.error);
+      job.remoteJob = undefined;
+      await this.saveQueue();
+    }
+
+    return await this.transcription.transcribeAudio(fileUri, {
+      recordingId: job.recordingId,
+      language: job.language,
+      signal,
+      onRemoteJob: (remoteJob) => {
+        job.remoteJob = remoteJob;
+        this.saveQueue();
+      },
+    });
+  }
+
+  // Each file's timestamps start at zero, so move them to where the file sits in the recording
+  private combineResults(job: TranscriptionJob): TranscriptionResult {
+    const segments: TranscriptSegment[] = [];
+    job.results.forEach((result, index) => {
+      const fileSegments = job.files.length > 1 ? scopeSpeakers(result.segments || [], index) : result.segments || [];
+      segments.push(...offsetSegments(fileSegments, job.segmentOffsets[index] || 0));
+    });
+
+    return {
+      text: job.results.map(result => result.text.trim()).filter(Boolean).join(' '),
+      provider: job.results[0]?.provider || 'none',
+      language: job.results.find(result => result.language)?.language,
+      durationSeconds: job.results.reduce((sum, result) => sum + (result.durationSeconds || 0), 0) || undefined,
+      segments: segments.length ? segments : undefined,
+    };
+  }
+
+
+  // Stops the recording's job whether it is running or still waiting for a retry
+  async cancel(recordingId: string): Promise<boolean> {
+    await this.loaded;
+
+    const job = this.queue.find(existing =>
+      existing.recordingId === recordingId && (existing.status === 'pending' || existing.status === 'transcribing')
+    );
+    if (!job) {
+      return false;
+    }
+
+    if (this.activeJob?.id === job.id) {
+      // processJob notices the abort and marks the job cancelled
+      this.activeJob.controller.abort();
+    } else {
+      job.status = 'cancelled';
+      await this.saveQueue();
+      this.emitStatusChange(job);
+    }
+    return true;
+  }
+
+  async retryFailed(): Promise<void> {
+    const failedJobs = this.queue.filter(job => job.status === 'failed');
+
+    for (const job of failedJobs) {
+      job.status = 'pending';
+      job.retries = 0;
+    }
+
+    await this.saveQueue();
+    failedJobs.forEach(job => this.emitStatusChange(job));
+
+    if (failedJobs.length > 0 && !this.isProcessing) {
+      this.processQueue();
+    }
+  }
+
+  async getJobs(): Promise<TranscriptionJob[]> {
+    await this.loaded;
+    return [...this.queue];
+  }
+
+  // Latest job for a recording, which decides its transcription status
+  getJobForRecording(recordingId: string): TranscriptionJob | undefined {
+    return this.queue
+      .filter(job => job.recordingId === recordingId)
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+  }
+
+  private async loadQueue(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        this.queue = JSON.parse(stored);
+        console.log(`Loaded ${this.queue.length} jobs from transcription queue`);
+
+        // Jobs cut off by the app closing continue; a saved remote job is polled, not re-sent
+        this.queue.forEach(job => {
+          if (job.status === 'transcribing') {
+            job.status = 'pending';
+          }
+        });
+
+        this.cleanupOldJobs();
+
+        if (this.queue.some(job => job.status === 'pending')) {
+          this.processQueue();
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load transcription queue:', error);
+    }
+  }
+
+  private async saveQueue(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('Failed to save transcription queue:', error);
+    }
+  }
+
+  // Finished jobs are only kept long enough for their status to be shown
+  private cleanupOldJobs(): void {
+    const cutoffTime = Date.now() - (this.config.cleanupAfterDays * 24 * 60 * 60 * 1000);
+    this.queue = this.queue.filter(job =>
+      job.status === 'pending' || job.status === 'transcribing' || job.createdAt > cutoffTime
+    );
+  }
+
+  private emitStatusChange(job: TranscriptionJob): void {
+    try {
+      this.delegate?.onTranscriptionStatusChange(job);
+    } catch (error) {
+      console.error('Transcription status listener error:', error);
+    }
+  }
+
+  private emitComplete(job: TranscriptionJob, result: TranscriptionResult): void {
+    try {
+      this.delegate?.onTranscriptionComplete(job, result);
+    } catch (error) {
+      console.error('Transcription completion listener error:', error);
+    }
+  }
+
+
+  updateConfig(newConfig: Partial<TranscriptionQueueConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+}
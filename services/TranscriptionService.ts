@@ -1,70 +1,161 @@
+import {
+  ProviderSettings,
+  TranscribeOptions,
+  TranscriptionProvider,
+  cancelledResult,
+  getProviderOrder,
+  isProviderConfigured,
+  loadLocalOnly,
+  loadProviderSettings,
+  transcriptionProviders,
+} from './TranscriptionProviders';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_LANGUAGE } from './Languages';
+import { loadCorrections, loadGlossary } from './Vocabulary';
+import { UsageLedger } from './UsageLedger';
+import { AudioChunk, canSplitAudio, deleteChunks, getFileSize, splitWavFile, stitchChunkResults } from './AudioChunker';
+import { OpenAICompatibleProvider, OpenAIWhisperProvider } from './OpenAIWhisperProvider';
+import { AssemblyAIProvider } from './AssemblyAIProvider';
 
-interface TranscriptionResult {
+// Times are in seconds from the start of the transcribed audio, whichever provider produced them
+export interface TranscriptWord {
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string; // provider's speaker label, when it separates speakers
+  words?: TranscriptWord[];
+}
+
+// A provider-side job that outlives the app, identified well enough to fetch its result later
+export interface RemoteTranscriptionJob {
+  provider: string;
+  remoteId: string;
+}
+
+export interface TranscriptionResult {
   text: string;
   confidence?: number;
   error?: string;
-  provider: 'assemblyai' | 'openai';
+  cancelled?: boolean; // stopped by the user; not worth retrying or falling back
+  remoteJobPending?: boolean; // the provider job may still finish: poll it again later, don't start another
+  provider: string; // id of the registered provider that produced it
+  language?: string; // ISO code, detected by the provider or the one that was requested
+  durationSeconds?: number; // audio length the provider billed for
+  segments?: TranscriptSegment[];
 }
 
+export interface TranscribeAudioOptions {
+  preferredProvider?: string;
+  recordingId?: string; // noted in the usage ledger
+  language?: string; // ISO code or 'auto'; the saved default is used when missing
+  signal?: AbortSignal;
+  onRemoteJob?: (job: RemoteTranscriptionJob) => void;
+}
+
+// Shift a transcript of one file onto the timeline of the whole recording
+export function offsetSegments(segments: TranscriptSegment[], offsetSeconds: number): TranscriptSegment[] {
+  if (!offsetSeconds) {
+    return segments;
+  }
+  return segments.map(segment => ({
+    ...segment,
+    start: segment.start + offsetSeconds,
+    end: segment.end + offsetSeconds,
+    words: segment.words?.map(word => ({ ...word, start: word.start + offsetSeconds, end: word.end + offsetSeconds })),
+  }));
+}
+
+// Built-in backends; others register their adapter the same way
+transcriptionProviders.register(new OpenAIWhisperProvider());
+transcriptionProviders.register(new AssemblyAIProvider());
+transcriptionProviders.register(new OpenAICompatibleProvider());
+
+// Import the registry from here so the built-ins are always registered
+export { transcriptionProviders };
+
 export class TranscriptionService {
-  async transcribeAudio(audioUri: string, preferredProvider?: 'assemblyai' | 'openai'): Promise<TranscriptionResult> {
+  private ledger?: UsageLedger;
+
+  constructor(ledger?: UsageLedger) {
+    this.ledger = ledger;
+  }
+
+  // Tries each configured provider in the saved fallback order until one returns text
+  async transcribeAudio(audioUri: string, options: TranscribeAudioOptions = {}): Promise<TranscriptionResult> {
+    const { preferredProvider, recordingId, signal, onRemoteJob } = options;
     try {
       console.log('🎯 TranscriptionService.transcribeAudio called with:', audioUri);
-      
-      // Get API keys from storage
-      const openaiKey = await AsyncStorage.getItem('openai_api_key');
-      const assemblyaiKey = await AsyncStorage.getItem('assemblyai_api_key');
-      const savedProvider = await AsyncStorage.getItem('preferred_provider') as 'openai' | 'assemblyai' || 'openai';
-      
-      console.log('🔑 API Keys loaded:', {
-        hasOpenAI: !!openaiKey,
-        hasAssemblyAI: !!assemblyaiKey,
-        openAILength: openaiKey?.length || 0,
-        assemblyAILength: assemblyaiKey?.length || 0
-      });
-      
-      const provider = preferredProvider || savedProvider;
-      console.log('📋 Using provider:', provider);
-
-      if (!openaiKey && !assemblyaiKey) {
-        console.error('❌ No API keys found');
-        return {
-          text: '',
-          error: 'No API keys configured. Please add your keys in Settings.',
-          provider: provider
-        };
+
+      const language = options.language || await this.loadDefaultLanguage();
+      console.log('🌐 Language:', language);
+      const providerOptions: TranscribeOptions = {
+        language,
+        signal,
+        glossary: await loadGlossary(),
+        corrections: await loadCorrections(),
+      };
+
+      const order = await getProviderOrder();
+      if (preferredProvider && order.includes(preferredProvider)) {
+        order.splice(order.indexOf(preferredProvider), 1);
+        order.unshift(preferredProvider);
       }
+      const localOnly = await loadLocalOnly();
+      console.log('📋 Provider order:', order, localOnly ? '(local only)' : '');
 
-      // Try preferred provider first
-      if (provider === 'openai' && openaiKey) {
-        const result = await this.transcribeWithOpenAI(audioUri, openaiKey);
-        if (result.text && !result.error) {
-          return result;
+      let lastResult: TranscriptionResult | null = null;
+      const attempted: string[] = [];
+      for (const id of order) {
+        if (signal?.aborted) {
+          return cancelledResult(lastResult?.provider || id);
+        }
+        const provider = transcriptionProviders.get(id)!;
+        if (localOnly && !provider.selfHosted) {
+          continue;
         }
-        // Fallback to AssemblyAI if available
-        if (assemblyaiKey) {
-          console.log('OpenAI failed, trying AssemblyAI as fallback');
-          return await this.transcribeWithAssemblyAI(audioUri, assemblyaiKey);
+        const settings = await loadProviderSettings(provider);
+        if (!isProviderConfigured(provider, settings)) {
+          continue;
         }
-        return result; // Return OpenAI error if no fallback
-      } else if (provider === 'assemblyai' && assemblyaiKey) {
-        const result = await this.transcribeWithAssemblyAI(audioUri, assemblyaiKey);
+
+        if (lastResult) {
+          console.log(`${lastResult.provider} failed, trying ${provider.id} as fallback`);
+        }
+        attempted.push(provider.id);
+        const result = await this.transcribeWithProvider(provider, settings, audioUri, providerOptions, onRemoteJob);
         if (result.text && !result.error) {
+          await this.recordUsage(provider, result, attempted, recordingId);
           return result;
         }
-        // Fallback to OpenAI if available
-        if (openaiKey) {
-          console.log('AssemblyAI failed, trying OpenAI as fallback');
-          return await this.transcribeWithOpenAI(audioUri, openaiKey);
+        if (result.cancelled) {
+          return result;
         }
-        return result; // Return AssemblyAI error if no fallback
+        if (result.remoteJobPending) {
+          // Another provider would bill the same audio a second time
+          console.log(`${provider.id} job still running, not falling back`);
+          return result;
+        }
+        lastResult = result;
       }
 
+      if (lastResult) {
+        return lastResult; // Error from the last provider tried
+      }
+
+      console.error('❌ No transcription provider configured');
       return {
         text: '',
-        error: `No API key available for ${provider}`,
-        provider: provider
+        error: localOnly
+          ? 'Local-only transcription is on but no self-hosted provider is configured.'
+          : 'No API keys configured. Please add your keys in Settings.',
+        provider: preferredProvider || order[0] || 'none'
       };
 
     } catch (error) {
@@ -72,181 +163,115 @@ export class TranscriptionService {
       return {
         text: '',
         error: error instanceof Error ? error.message : 'Unknown error',
-        provider: preferredProvider || 'openai'
+        provider: preferredProvider || 'none'
       };
     }
   }
 
-  async transcribeWithOpenAI(audioUri: string, apiKey: string): Promise<TranscriptionResult> {
-    try {
-      console.log('Starting OpenAI transcription for:', audioUri);
-
-      // Handle blob URLs in web environment
-      let audioBlob: Blob;
-      if (audioUri.startsWith('blob:')) {
-        console.log('Converting blob URL to blob...');
-        const response = await fetch(audioUri);
-        audioBlob = await response.blob();
-        console.log('Blob converted, size:', audioBlob.size, 'type:', audioBlob.type);
-      } else {
-        // For native, create a proper file reference
-        audioBlob = {
-          uri: audioUri,
-          type: 'audio/m4a',
-          name: 'recording.m4a',
-        } as any;
-      }
-
-      const formData = new FormData();
-      formData.append('file', audioBlob, 'recording.m4a');
-      formData.append('model', 'whisper-1');
-      formData.append('language', 'en');
-      formData.append('response_format', 'json');
-
-      const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: formData
+  // Files over the provider's size limit are split into overlapping chunks and stitched back together
+  private async transcribeWithProvider(
+    provider: TranscriptionProvider,
+    settings: ProviderSettings,
+    audioUri: string,
+    options: TranscribeOptions,
+    onRemoteJob?: (job: RemoteTranscriptionJob) => void
+  ): Promise<TranscriptionResult> {
+    const limit = provider.maxFileSizeBytes;
+    const size = limit ? await getFileSize(audioUri) : undefined;
+    if (!limit || !size || size <= limit) {
+      return await provider.transcribe(audioUri, settings, {
+        ...options,
+        onRemoteJob: (remoteId) => onRemoteJob?.({ provider: provider.id, remoteId }),
       });
+    }
 
-      const result = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${result.error?.message || 'Unknown error'}`);
-      }
-
-      console.log('OpenAI transcription completed:', result.text);
-      return {
-        text: result.text || '',
-        provider: 'openai'
-      };
-
-    } catch (error) {
-      console.error('OpenAI transcription error:', error);
+    const sizeMB = (size / 1024 / 1024).toFixed(1);
+    const limitMB = Math.round(limit / 1024 / 1024);
+    if (!canSplitAudio(audioUri)) {
       return {
         text: '',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        provider: 'openai'
+        error: `Recording is ${sizeMB} MB, over the ${limitMB} MB limit of ${provider.label}, and this format cannot be split`,
+        provider: provider.id,
       };
     }
-  }
 
-  async transcribeWithAssemblyAI(audioUri: string, apiKey: string): Promise<TranscriptionResult> {
+    console.log(`✂️ ${sizeMB} MB is over the ${limitMB} MB limit of ${provider.label}, splitting`);
+    let chunks: AudioChunk[] = [];
     try {
-      console.log('Starting AssemblyAI transcription for:', audioUri);
-
-      // Handle blob URLs in web environment
-      let audioBlob: Blob;
-      if (audioUri.startsWith('blob:')) {
-        console.log('Converting blob URL to blob for AssemblyAI...');
-        const response = await fetch(audioUri);
-        audioBlob = await response.blob();
-        console.log('AssemblyAI blob converted, size:', audioBlob.size, 'type:', audioBlob.type);
-      } else {
-        // For native, create a proper file reference
-        audioBlob = {
-          uri: audioUri,
-          type: 'audio/m4a',
-          name: 'recording.m4a',
-        } as any;
-      }
+      // Leave headroom for the multipart encoding around the file
+      chunks = await splitWavFile(audioUri, Math.floor(limit * 0.95));
 
-      // Step 1: Upload audio file
-      const uploadFormData = new FormData();
-      uploadFormData.append('file', audioBlob, 'recording.m4a');
-
-      const uploadResponse = await fetch('https://api.assemblyai.com/v2/upload', {
-        method: 'POST',
-        headers: {
-          'authorization': apiKey,
-        },
-        body: uploadFormData
-      });
-
-      const uploadResult = await uploadResponse.json();
-      if (!uploadResponse.ok) {
-        throw new Error(`Upload failed: ${uploadResult.error || 'Unknown error'}`);
-      }
-
-      const audioUrl = uploadResult.upload_url;
-      console.log('Audio uploaded to AssemblyAI:', audioUrl);
-
-      // Step 2: Request transcription
-      const transcriptResponse = await fetch('https://api.assemblyai.com/v2/transcript', {
-        method: 'POST',
-        headers: {
-          'authorization': apiKey,
-          'content-type': 'application/json'
-        },
-        body: JSON.stringify({
-          audio_url: audioUrl,
-          language_detection: true,
-          punctuate: true,
-          format_text: true
-        })
-      });
-
-      const transcriptResult = await transcriptResponse.json();
-      if (!transcriptResponse.ok) {
-        throw new Error(`Transcription request failed: ${transcriptResult.error || 'Unknown error'}`);
+      // One chunk at a time keeps memory use and provider rate limits in check
+      const results: TranscriptionResult[] = [];
+      for (const chunk of chunks) {
+        if (options.signal?.aborted) {
+          return cancelledResult(provider.id);
+        }
+        const result = await provider.transcribe(chunk.uri, settings, options);
+        if (result.error) {
+          return result;
+        }
+        results.push(result);
       }
-
-      const transcriptId = transcriptResult.id;
-      console.log('AssemblyAI transcription started, ID:', transcriptId);
-
-      // Step 3: Poll for results
-      return await this.pollAssemblyAIResults(transcriptId, apiKey);
-
+      return stitchChunkResults(chunks, results);
     } catch (error) {
-      console.error('AssemblyAI transcription error:', error);
+      console.error('Chunked transcription error:', error);
       return {
         text: '',
         error: error instanceof Error ? error.message : 'Unknown error',
-        provider: 'assemblyai'
+        provider: provider.id,
       };
+    } finally {
+      await deleteChunks(chunks);
     }
   }
 
-  private async pollAssemblyAIResults(transcriptId: string, apiKey: string, maxAttempts = 30): Promise<TranscriptionResult> {
-    for (let i = 0; i < maxAttempts; i++) {
-      try {
-        const response = await fetch(`https://api.assemblyai.com/v2/transcript/${transcriptId}`, {
-          headers: {
-            'authorization': apiKey
-          }
-        });
-
-        const result = await response.json();
-        
-        if (!response.ok) {
-          throw new Error(`Polling failed: ${result.error || 'Unknown error'}`);
-        }
-
-        if (result.status === 'completed') {
-          console.log('AssemblyAI transcription completed:', result.text);
-          return {
-            text: result.text || '',
-            confidence: result.confidence,
-            provider: 'assemblyai'
-          };
-        } else if (result.status === 'error') {
-          throw new Error(`Transcription failed: ${result.error}`);
-        }
+  private async loadDefaultLanguage(): Promise<string> {
+    try {
+      return (await AsyncStorage.getItem('transcription_language')) || DEFAULT_LANGUAGE;
+    } catch (error) {
+      console.error('Failed to load transcription language:', error);
+      return DEFAULT_LANGUAGE;
+    }
+  }
 
-        // Wait 2 seconds before next poll
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        console.log(`Polling attempt ${i + 1}/${maxAttempts}, status: ${result.status}`);
+  // Picks up a job started before the app was closed, instead of uploading the audio again
+  async resumeRemoteJob(job: RemoteTranscriptionJob, recordingId?: string, signal?: AbortSignal): Promise<TranscriptionResult> {
+    const provider = transcriptionProviders.get(job.provider);
+    if (!provider?.resume) {
+      return { text: '', error: `Cannot resume jobs from ${job.provider}`, provider: job.provider };
+    }
 
-      } catch (error) {
-        if (i === maxAttempts - 1) {
-          throw error;
-        }
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
+    const settings = await loadProviderSettings(provider);
+    const result = await provider.resume(job.remoteId, settings, { signal });
+    if (!result.error) {
+      await this.recordUsage(provider, result, [provider.id], recordingId);
     }
+    return result;
+  }
 
-    throw new Error('Transcription timeout - please try again');
+  // Costs are estimates from the provider's published price, not its invoice
+  private async recordUsage(
+    provider: TranscriptionProvider,
+    result: TranscriptionResult,
+    attempted: string[],
+    recordingId?: string
+  ): Promise<void> {
+    if (!this.ledger) return;
+
+    const lastSegment = result.segments?.[result.segments.length - 1];
+    const durationSeconds = result.durationSeconds ?? lastSegment?.end ?? 0;
+    try {
+      await this.ledger.record({
+        recordingId,
+        provider: provider.id,
+        durationSeconds,
+        fallback: attempted.length > 1,
+        attemptedProviders: [...attempted],
+        estimatedCost: (durationSeconds / 60) * (provider.costPerMinute || 0),
+      });
+    } catch (error) {
+      console.error('Failed to record usage:', error);
+    }
   }
-}
\ No newline at end of file
+}
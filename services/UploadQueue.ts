@@ -1,49 +1,98 @@
 import * as FileSystem from 'expo-file-system';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { InterruptionEvent, SilentRange, StopReason } from './RecorderService';
+import { RecordingProfileId, getAudioFormat } from './RecordingProfiles';
+import { Bookmark, normalizeBookmarks } from './Bookmarks';
+import { BookmarkExcerpt } from './Excerpts';
+import { TranscriptSummary } from './SummaryService';
+import { calculateRetryDelay, fetchWithTimeout, generateId } from './Abort';
 
 export interface UploadItem {
   id: string;
   path: string;
-  bookmarks: number[];
+  segments?: string[]; // all files of a rotated recording, in order; path is the first
+  bookmarks: Bookmark[];
+  silentRanges?: SilentRange[];
+  profile?: RecordingProfileId;
+  mimeType?: string; // missing on items queued before profiles existed, which were all m4a
+  preRollSeconds?: number;
+  stopReason?: StopReason;
+  interruptions?: InterruptionEvent[];
+  excerpts?: BookmarkExcerpt[];
+  summary?: TranscriptSummary;
   flagged: boolean;
   retries: number;
   createdAt: number;
-  status: 'pending' | 'uploading' | 'completed' | 'failed';
+  status: 'pending' | 'uploading' | 'completed' | 'failed' | 'cancelled';
+  metadataPending?: boolean; // metadata changed after the upload started; sent to metadataEndpoint
+  metadataRetries?: number;
+}
+
+export interface EnqueueOptions {
+  segments?: string[];
+  silentRanges?: SilentRange[];
+  profile?: RecordingProfileId;
+  preRollSeconds?: number;
+  stopReason?: StopReason;
+  interruptions?: InterruptionEvent[];
+}
+
+export interface UploadQueueEvents {
+  onUploadStatusChange(item: UploadItem): void;
 }
 
 export interface UploadConfig {
   endpoint: string;
+  metadataEndpoint: string; // receives metadata that changed after the audio was uploaded
   maxRetries: number;
   retryDelay: number; // base delay in milliseconds
   maxRetryDelay: number; // maximum delay cap
+  requestTimeout: number; // per upload attempt, in milliseconds
   cleanupAfterDays: number;
 }
 
 const defaultConfig: UploadConfig = {
   endpoint: 'https://your-upload-endpoint.com/api/upload',
+  metadataEndpoint: 'https://your-upload-endpoint.com/api/upload/metadata',
   maxRetries: 5,
   retryDelay: 2000, // 2 seconds
   maxRetryDelay: 30000, // 30 seconds
+  requestTimeout: 5 * 60 * 1000, // 5 minutes
   cleanupAfterDays: 7,
 };
 
 export class UploadQueue {
   private config: UploadConfig;
   private isProcessing = false;
+  private delegate: UploadQueueEvents | null = null;
+  private loaded: Promise<void>;
   private queue: UploadItem[] = [];
+  private activeUpload: { id: string; controller: AbortController } | null = null;
   private readonly STORAGE_KEY = 'upload_queue';
 
   constructor(config?: Partial<UploadConfig>) {
     this.config = { ...defaultConfig, ...config };
-    this.loadQueue();
+    this.loaded = this.loadQueue();
     this.startPeriodicCleanup();
   }
 
-  async enqueue(filePath: string, bookmarks: number[] = [], flagged = false): Promise<string> {
+  setDelegate(delegate: UploadQueueEvents): void {
+    this.delegate = delegate;
+  }
+
+  async enqueue(filePath: string, bookmarks: Bookmark[] = [], flagged = false, options: EnqueueOptions = {}): Promise<string> {
+    const { segments, silentRanges, profile, preRollSeconds, stopReason, interruptions } = options;
     const item: UploadItem = {
-      id: this.generateId(),
+      id: generateId(),
       path: filePath,
+      segments: segments && segments.length > 1 ? segments : undefined,
       bookmarks,
+      silentRanges: silentRanges?.length ? silentRanges : undefined,
+      profile,
+      mimeType: getAudioFormat(filePath).mimeType,
+      preRollSeconds: preRollSeconds || undefined,
+      stopReason,
+      interruptions: interruptions?.length ? interruptions : undefined,
       flagged,
       retries: 0,
       createdAt: Date.now(),
@@ -81,6 +130,8 @@ export class UploadQueue {
 
         await this.processItem(pendingItem);
       }
+
+      await this.sendMetadataUpdates();
     } catch (error) {
       console.error('Queue processing error:', error);
     } finally {
@@ -94,21 +145,30 @@ export class UploadQueue {
     
     item.status = 'uploading';
     await this.saveQueue();
+    this.emitStatusChange(item);
 
     try {
-      // Check if file still exists
-      const fileInfo = await FileSystem.getInfoAsync(item.path);
-      if (!fileInfo.exists) {
-        console.warn(`File not found: ${item.path}`);
-        item.status = 'failed';
-        await this.saveQueue();
-        return;
+      // Check if files still exist
+      for (const path of this.getItemFiles(item)) {
+        const fileInfo = await FileSystem.getInfoAsync(path);
+        if (!fileInfo.exists) {
+          console.warn(`File not found: ${path}`);
+          item.status = 'failed';
+          await this.saveQueue();
+          this.emitStatusChange(item);
+          return;
+        }
       }
 
       // Attempt upload
-      const success = await this.uploadFile(item);
-      
-      if (success) {
+      const controller = new AbortController();
+      this.activeUpload = { id: item.id, controller };
+      const success = await this.uploadFile(item, controller.signal);
+
+      if (controller.signal.aborted) {
+        item.status = 'cancelled';
+        console.log(`Upload cancelled: ${item.id}`);
+      } else if (success) {
         item.status = 'completed';
         console.log(`Upload completed: ${item.id}`);
         
@@ -126,7 +186,7 @@ export class UploadQueue {
         console.error(`Max retries reached for ${item.id}, marking as failed`);
       } else {
         item.status = 'pending';
-        const delay = this.calculateRetryDelay(item.retries);
+        const delay = calculateRetryDelay(item.retries, this.config.retryDelay, this.config.maxRetryDelay);
         console.log(`Will retry ${item.id} in ${delay}ms`);
         
         // Schedule retry
@@ -136,38 +196,41 @@ export class UploadQueue {
           }
         }, delay);
       }
+    } finally {
+      this.activeUpload = null;
     }
 
     await this.saveQueue();
+    this.emitStatusChange(item);
   }
 
-  private async uploadFile(item: UploadItem): Promise<boolean> {
+  private async uploadFile(item: UploadItem, signal?: AbortSignal): Promise<boolean> {
     try {
       const formData = new FormData();
       
-      // Add audio file
-      formData.append('audio', {
-        uri: item.path,
-        type: 'audio/m4a',
-        name: `recording-${item.id}.m4a`,
-      } as any);
+      // Add audio files, one part per segment
+      const files = this.getItemFiles(item);
+      files.forEach((path, index) => {
+        const { extension, mimeType } = getAudioFormat(path);
+        formData.append('audio', {
+          uri: path,
+          type: item.mimeType || mimeType,
+          name: files.length > 1
+            ? `recording-${item.id}-part${index + 1}${extension}`
+            : `recording-${item.id}${extension}`,
+        } as any);
+      });
 
       // Add metadata
-      formData.append('metadata', JSON.stringify({
-        id: item.id,
-        bookmarks: item.bookmarks,
-        flagged: item.flagged,
-        createdAt: item.createdAt,
-      }));
-
-      const response = await fetch(this.config.endpoint, {
+      formData.append('metadata', JSON.stringify(this.buildMetadata(item)));
+
+      const response = await fetchWithTimeout(this.config.endpoint, {
         method: 'POST',
         body: formData,
         headers: {
           'Content-Type': 'multipart/form-data',
         },
-        // Add timeout
-      });
+      }, this.config.requestTimeout, signal);
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -183,20 +246,85 @@ export class UploadQueue {
     }
   }
 
-  private calculateRetryDelay(attempt: number): number {
-    // Exponential backoff with jitter
-    const baseDelay = this.config.retryDelay * Math.pow(2, attempt);
-    const jitter = Math.random() * 1000; // Add up to 1 second of jitter
-    const delay = baseDelay + jitter;
-    
-    return Math.min(delay, this.config.maxRetryDelay);
+  private buildMetadata(item: UploadItem): Record<string, unknown> {
+    return {
+      id: item.id,
+      segmentCount: this.getItemFiles(item).length,
+      profile: item.profile,
+      mimeType: item.mimeType || 'audio/m4a',
+      preRollSeconds: item.preRollSeconds || 0,
+      stopReason: item.stopReason,
+      interruptions: item.interruptions || [],
+      bookmarks: item.bookmarks,
+      excerpts: item.excerpts || [],
+      summary: item.summary,
+      silentRanges: item.silentRanges || [],
+      flagged: item.flagged,
+      createdAt: item.createdAt,
+    };
   }
 
+  // One attempt per uploaded item whose metadata changed; failures are tried again after a backoff
+  private async sendMetadataUpdates(): Promise<void> {
+    const items = this.queue.filter(item => this.needsMetadataUpdate(item));
+
+    for (const item of items) {
+      try {
+        const response = await fetchWithTimeout(this.config.metadataEndpoint, {
+          method: 'POST',
+          body: JSON.stringify(this.buildMetadata(item)),
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }, this.config.requestTimeout);
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        item.metadataPending = false;
+        item.metadataRetries = 0;
+        console.log(`Metadata updated: ${item.id}`);
+      } catch (error) {
+        console.error(`Metadata update failed for ${item.id}:`, error);
+        item.metadataRetries = (item.metadataRetries || 0) + 1;
+
+        if (item.metadataRetries < this.config.maxRetries) {
+          setTimeout(() => {
+            if (!this.isProcessing) {
+              this.processQueue();
+            }
+          }, calculateRetryDelay(item.metadataRetries, this.config.retryDelay, this.config.maxRetryDelay));
+        }
+      }
+      await this.saveQueue();
+    }
+  }
+
+  private needsMetadataUpdate(item: UploadItem): boolean {
+    return item.status === 'completed' && !!item.metadataPending && (item.metadataRetries || 0) < this.config.maxRetries;
+  }
+
+  // Items already uploaded, or on their way, get the change sent as a metadata update
+  private async metadataChanged(item: UploadItem): Promise<void> {
+    if (item.status === 'uploading' || item.status === 'completed') {
+      item.metadataPending = true;
+      item.metadataRetries = 0;
+    }
+    await this.saveQueue();
+
+    if (item.status === 'completed' && !this.isProcessing) {
+      this.processQueue();
+    }
+  }
+
+
   async getQueueStatus(): Promise<{
     pending: number;
     uploading: number;
     completed: number;
     failed: number;
+    cancelled: number;
     total: number;
   }> {
     const status = {
@@ -204,6 +332,7 @@ export class UploadQueue {
       uploading: 0,
       completed: 0,
       failed: 0,
+      cancelled: 0,
       total: this.queue.length,
     };
 
@@ -214,8 +343,9 @@ export class UploadQueue {
     return status;
   }
 
+  // Cancelled uploads are retried along with failed ones
   async retryFailed(): Promise<void> {
-    const failedItems = this.queue.filter(item => item.status === 'failed');
+    const failedItems = this.queue.filter(item => item.status === 'failed' || item.status === 'cancelled');
     
     for (const item of failedItems) {
       item.status = 'pending';
@@ -223,12 +353,108 @@ export class UploadQueue {
     }
 
     await this.saveQueue();
+    failedItems.forEach(item => this.emitStatusChange(item));
     
     if (failedItems.length > 0 && !this.isProcessing) {
       this.processQueue();
     }
   }
 
+  // Stops the upload in progress and everything still waiting; returns how many were cancelled
+  async cancelAll(): Promise<number> {
+    await this.loaded;
+
+    const items = this.queue.filter(item => item.status === 'pending' || item.status === 'uploading');
+    for (const item of items) {
+      if (this.activeUpload?.id === item.id) {
+        // processItem notices the abort and marks the item cancelled
+        this.activeUpload.controller.abort();
+      } else {
+        item.status = 'cancelled';
+        this.emitStatusChange(item);
+      }
+    }
+
+    await this.saveQueue();
+    return items.length;
+  }
+
+  // Drops an item from the queue, stopping it if it is uploading; the files are left alone
+  async remove(itemId: string): Promise<boolean> {
+    await this.loaded;
+
+    const initialCount = this.queue.length;
+    this.queue = this.queue.filter(item => item.id !== itemId);
+    if (this.queue.length === initialCount) {
+      return false;
+    }
+
+    if (this.activeUpload?.id === itemId) {
+      this.activeUpload.controller.abort();
+    }
+    await this.saveQueue();
+    return true;
+  }
+
+  async getItems(): Promise<UploadItem[]> {
+    await this.loaded;
+    return [...this.queue];
+  }
+
+  getItem(id: string): UploadItem | undefined {
+    return this.queue.find(item => item.id === id);
+  }
+
+  // Edits are kept locally; they reach the server with the upload if it has not happened yet
+  async updateBookmark(itemId: string, bookmarkId: string, changes: Partial<Omit<Bookmark, 'id'>>): Promise<Bookmark | null> {
+    const item = this.getItem(itemId);
+    const bookmark = item?.bookmarks.find(existing => existing.id === bookmarkId);
+    if (!item || !bookmark) {
+      return null;
+    }
+
+    Object.assign(bookmark, changes);
+    item.bookmarks = normalizeBookmarks(item.bookmarks);
+    await this.metadataChanged(item);
+    return bookmark;
+  }
+
+  async removeBookmark(itemId: string, bookmarkId: string): Promise<boolean> {
+    const item = this.getItem(itemId);
+    if (!item) {
+      return false;
+    }
+
+    const before = item.bookmarks.length;
+    item.bookmarks = item.bookmarks.filter(bookmark => bookmark.id !== bookmarkId);
+    await this.metadataChanged(item);
+    return item.bookmarks.length !== before;
+  }
+
+  // Excerpts come from transcription, which usually finishes after the item is uploaded
+  async setExcerpts(itemId: string, excerpts: BookmarkExcerpt[]): Promise<boolean> {
+    const item = this.getItem(itemId);
+    if (!item) {
+      return false;
+    }
+
+    item.excerpts = excerpts.length ? excerpts : undefined;
+    await this.metadataChanged(item);
+    return true;
+  }
+
+  // Like excerpts, usually arrives after the audio was uploaded
+  async setSummary(itemId: string, summary: TranscriptSummary): Promise<boolean> {
+    const item = this.getItem(itemId);
+    if (!item) {
+      return false;
+    }
+
+    item.summary = summary;
+    await this.metadataChanged(item);
+    return true;
+  }
+
   async clearCompleted(): Promise<number> {
     const completedCount = this.queue.filter(item => item.status === 'completed').length;
     this.queue = this.queue.filter(item => item.status !== 'completed');
@@ -248,10 +474,14 @@ export class UploadQueue {
           if (item.status === 'uploading') {
             item.status = 'pending';
           }
+          // Older items stored bookmarks as bare offsets
+          item.bookmarks = normalizeBookmarks(item.bookmarks);
         });
+        // Keep the ids given to those bookmarks, which the recording store copies
+        await this.saveQueue();
         
-        // Resume processing if there are pending items
-        if (this.queue.some(item => item.status === 'pending')) {
+        // Resume processing if there are pending items or metadata updates that never went out
+        if (this.queue.some(item => item.status === 'pending' || this.needsMetadataUpdate(item))) {
           this.processQueue();
         }
       }
@@ -279,19 +509,11 @@ export class UploadQueue {
     const cutoffTime = Date.now() - (this.config.cleanupAfterDays * 24 * 60 * 60 * 1000);
     const initialCount = this.queue.length;
     
+    // Only the queue items go; the audio belongs to the recording store
     this.queue = this.queue.filter(item => {
-      const shouldKeep = item.status === 'pending' || 
-                        item.status === 'uploading' || 
-                        item.createdAt > cutoffTime;
-      
-      // Delete associated files for old completed items
-      if (!shouldKeep && (item.status === 'completed' || item.status === 'failed')) {
-        FileSystem.deleteAsync(item.path, { idempotent: true }).catch(() => {
-          // Ignore errors when deleting old files
-        });
-      }
-      
-      return shouldKeep;
+      return item.status === 'pending' || 
+             item.status === 'uploading' || 
+             item.createdAt > cutoffTime;
     });
 
     if (this.queue.length !== initialCount) {
@@ -300,10 +522,19 @@ export class UploadQueue {
     }
   }
 
-  private generateId(): string {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  private emitStatusChange(item: UploadItem): void {
+    try {
+      this.delegate?.onUploadStatusChange(item);
+    } catch (error) {
+      console.error('Upload status listener error:', error);
+    }
+  }
+
+  private getItemFiles(item: UploadItem): string[] {
+    return item.segments?.length ? item.segments : [item.path];
   }
 
+
   updateConfig(newConfig: Partial<UploadConfig>): void {
     this.config = { ...this.config, ...newConfig };
   }
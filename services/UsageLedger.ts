@@ -0,0 +1,165 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateId } from './Abort';
+
+export interface UsageEntry {
+  id: string;
+  recordingId?: string;
+  provider: string;
+  durationSeconds: number;
+  fallback: boolean; // true when an earlier provider in the order failed first
+  attemptedProviders: string[]; // every provider tried, in order, ending with the one that succeeded
+  estimatedCost: number; // USD
+  createdAt: number;
+}
+
+export type NewUsageEntry = Omit<UsageEntry, 'id' | 'createdAt'>;
+
+export interface ProviderUsage {
+  jobs: number;
+  minutes: number;
+  cost: number;
+}
+
+export interface UsageSummary extends ProviderUsage {
+  month: string; // YYYY-MM
+  fallbacks: number;
+  byProvider: Record<string, ProviderUsage>;
+}
+
+export interface BudgetSettings {
+  monthlyBudget: number; // USD, 0 for no budget
+  pauseWhenExceeded: boolean;
+}
+
+export interface UsageLedgerEvents {
+  onUsageRecorded(entry: UsageEntry, summary: UsageSummary): void;
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  monthlyBudget: 0,
+  pauseWhenExceeded: false,
+};
+
+// Share of the budget at which the first warning is shown
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const BUDGET_KEY = 'monthly_budget_usd';
+const PAUSE_KEY = 'budget_pause_auto_transcription';
+const LEDGER_KEY = 'usage_ledger';
+const KEEP_MONTHS = 13;
+
+export function getMonthKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function summarizeUsage(entries: UsageEntry[], month: string = getMonthKey()): UsageSummary {
+  const summary: UsageSummary = { month, jobs: 0, minutes: 0, cost: 0, fallbacks: 0, byProvider: {} };
+
+  entries
+    .filter(entry => getMonthKey(new Date(entry.createdAt)) === month)
+    .forEach(entry => {
+      const minutes = entry.durationSeconds / 60;
+      const provider = summary.byProvider[entry.provider] || { jobs: 0, minutes: 0, cost: 0 };
+      provider.jobs++;
+      provider.minutes += minutes;
+      provider.cost += entry.estimatedCost;
+      summary.byProvider[entry.provider] = provider;
+
+      summary.jobs++;
+      summary.minutes += minutes;
+      summary.cost += entry.estimatedCost;
+      if (entry.fallback) summary.fallbacks++;
+    });
+
+  return summary;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
+}
+
+export async function loadUsageEntries(): Promise<UsageEntry[]> {
+  try {
+    const stored = await AsyncStorage.getItem(LEDGER_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load usage ledger:', error);
+    return [];
+  }
+}
+
+export async function loadBudgetSettings(): Promise<BudgetSettings> {
+  try {
+    const budget = await AsyncStorage.getItem(BUDGET_KEY);
+    const pause = await AsyncStorage.getItem(PAUSE_KEY);
+    return {
+      monthlyBudget: budget ? Math.max(0, Number(budget) || 0) : DEFAULT_BUDGET_SETTINGS.monthlyBudget,
+      pauseWhenExceeded: pause === 'true',
+    };
+  } catch (error) {
+    console.error('Failed to load budget settings:', error);
+    return DEFAULT_BUDGET_SETTINGS;
+  }
+}
+
+export async function saveBudgetSettings(settings: BudgetSettings): Promise<void> {
+  await AsyncStorage.setItem(BUDGET_KEY, String(Math.max(0, settings.monthlyBudget || 0)));
+  await AsyncStorage.setItem(PAUSE_KEY, settings.pauseWhenExceeded ? 'true' : 'false');
+}
+
+// Every finished transcription, kept for a year so monthly totals can be compared
+export class UsageLedger {
+  private entries: UsageEntry[] = [];
+  private delegate: UsageLedgerEvents | null = null;
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadEntries();
+  }
+
+  setDelegate(delegate: UsageLedgerEvents): void {
+    this.delegate = delegate;
+  }
+
+  async record(newEntry: NewUsageEntry): Promise<UsageEntry> {
+    await this.loaded;
+
+    const entry: UsageEntry = {
+      ...newEntry,
+      id: generateId(),
+      createdAt: Date.now(),
+    };
+    this.entries.push(entry);
+    await this.saveEntries();
+
+    console.log(`💰 ${entry.provider}: ${(entry.durationSeconds / 60).toFixed(1)} min, ${formatCost(entry.estimatedCost)}`);
+
+    try {
+      this.delegate?.onUsageRecorded(entry, summarizeUsage(this.entries));
+    } catch (error) {
+      console.error('Usage listener error:', error);
+    }
+    return entry;
+  }
+
+  async getMonthlySummary(month?: string): Promise<UsageSummary> {
+    await this.loaded;
+    return summarizeUsage(this.entries, month);
+  }
+
+  private async loadEntries(): Promise<void> {
+    this.entries = await loadUsageEntries();
+
+    const cutoff = new Date();
+    cutoff.setMonth(cutoff.getMonth() - KEEP_MONTHS);
+    this.entries = this.entries.filter(entry => entry.createdAt > cutoff.getTime());
+  }
+
+  private async saveEntries(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(LEDGER_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Failed to save usage ledger:', error);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TranscriptionResult } from './TranscriptionService';
+
+// A mis-transcription and what it should have been, e.g. "tie recorder" → "TaiRecorder"
+export interface Correction {
+  find: string;
+  replace: string;
+}
+
+const GLOSSARY_KEY = 'transcription_glossary';
+const CORRECTIONS_KEY = 'transcription_corrections';
+
+// Whisper only reads the last 224 tokens of its prompt
+const MAX_PROMPT_LENGTH = 800;
+
+// One term per line or separated by commas
+export function parseGlossary(text: string): string[] {
+  return Array.from(new Set(text.split(/[\n,]/).map(term => term.trim()).filter(term => term.length > 0)));
+}
+
+export async function loadGlossary(): Promise<string[]> {
+  try {
+    const stored = await AsyncStorage.getItem(GLOSSARY_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load glossary:', error);
+    return [];
+  }
+}
+
+export async function saveGlossary(terms: string[]): Promise<void> {
+  await AsyncStorage.setItem(GLOSSARY_KEY, JSON.stringify(terms));
+}
+
+export async function loadCorrections(): Promise<Correction[]> {
+  try {
+    const stored = await AsyncStorage.getItem(CORRECTIONS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load corrections:', error);
+    return [];
+  }
+}
+
+// Rows without a find text are dropped
+export async function saveCorrections(corrections: Correction[]): Promise<void> {
+  const cleaned = corrections
+    .map(correction => ({ find: correction.find.trim(), replace: correction.replace.trim() }))
+    .filter(correction => correction.find.length > 0);
+  await AsyncStorage.setItem(CORRECTIONS_KEY, JSON.stringify(cleaned));
+}
+
+// Whisper follows the spelling of words it has seen in the prompt
+export function buildWhisperPrompt(glossary: string[]): string | undefined {
+  if (glossary.length === 0) {
+    return undefined;
+  }
+
+  let prompt = '';
+  for (const term of glossary) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > MAX_PROMPT_LENGTH) break;
+    prompt = next;
+  }
+  return prompt ? `${prompt}.` : undefined;
+}
+
+export function applyCorrectionsToText(text: string, corrections: Correction[]): string {
+  return corrections.reduce((current, correction) => {
+    if (!correction.find) return current;
+    // Whole words only, so "Al" does not change inside "Also"
+    const pattern = new RegExp(`(^|\\W)${escapeRegExp(correction.find)}(?!\\w)`, 'gi');
+    return current.replace(pattern, (_match, before: string) => before + correction.replace);
+  }, text);
+}
+
+// Segments and words are corrected too so excerpts and search see the same text. Words are
+// corrected one at a time, so a correction spanning several words only reaches the segment text.
+export function applyCorrections(result: TranscriptionResult, corrections: Correction[]): TranscriptionResult {
+  if (corrections.length === 0) {
+    return result;
+  }
+
+  return {
+    ...result,
+    text: applyCorrectionsToText(result.text, corrections),
+    segments: result.segments?.map(segment => ({
+      ...segment,
+      text: applyCorrectionsToText(segment.text, corrections),
+      words: segment.words?.map(word => ({ ...word, text: applyCorrectionsToText(word.text, corrections) })),
+    })),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
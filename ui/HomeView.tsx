@@ -6,26 +6,31 @@ import {
   TouchableOpacity,
   Switch,
   Alert,
+  TextInput,
   ScrollView,
   Dimensions,
 } from 'react-native';
 import { AppController, AppState, AppStateListener } from '../services/AppController';
+import { Bookmark } from '../services/Bookmarks';
+import { getLanguageName } from '../services/Languages';
 
 interface HomeViewProps {
   controller: AppController;
   onPairingPress: () => void;
   onSettingsPress: () => void;
+  onRecordingsPress: () => void;
 }
 
 const { width } = Dimensions.get('window');
 
-export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress, onSettingsPress }) => {
+export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress, onSettingsPress, onRecordingsPress }) => {
   const [appState, setAppState] = useState<AppState>(controller.currentState);
   const [uploadStatus, setUploadStatus] = useState({
     pending: 0,
     uploading: 0,
     completed: 0,
     failed: 0,
+    cancelled: 0,
     total: 0,
   });
 
@@ -57,15 +62,46 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
     }
   };
 
+  const handlePauseResume = async () => {
+    await controller.togglePause();
+  };
+
+  const handleAddBookmark = () => {
+    controller.addBookmark({ source: 'ui' });
+  };
+
+  const handleFlagMoment = () => {
+    controller.addBookmark({ source: 'ui', kind: 'flagged' });
+  };
+
+  const handleToggleBookmarkKind = (bookmark: Bookmark) => {
+    controller.updateBookmark(bookmark.id, { kind: bookmark.kind === 'flagged' ? 'manual' : 'flagged' });
+  };
+
+  const formatOffset = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainder = Math.floor(seconds % 60);
+    return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+  };
+
   const handleKillSwitchToggle = (value: boolean) => {
     controller.setKillSwitch(value);
   };
 
+  const handlePreRollToggle = (value: boolean) => {
+    controller.setPreRollEnabled(value);
+  };
+
   const handleRetryUploads = () => {
     controller.retryFailedUploads();
     setTimeout(updateUploadStatus, 1000);
   };
 
+  const handleCancelUploads = async () => {
+    await controller.cancelUploads();
+    await updateUploadStatus();
+  };
+
   const handleClearCompleted = () => {
     controller.clearCompletedUploads();
     setTimeout(updateUploadStatus, 1000);
@@ -74,7 +110,7 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
   const showUploadDetails = () => {
     Alert.alert(
       'Upload Queue Status',
-      `Pending: ${uploadStatus.pending}\nUploading: ${uploadStatus.uploading}\nCompleted: ${uploadStatus.completed}\nFailed: ${uploadStatus.failed}\nTotal: ${uploadStatus.total}`,
+      `Pending: ${uploadStatus.pending}\nUploading: ${uploadStatus.uploading}\nCompleted: ${uploadStatus.completed}\nFailed: ${uploadStatus.failed}\nCancelled: ${uploadStatus.cancelled}\nTotal: ${uploadStatus.total}`,
       [
         { text: 'Retry Failed', onPress: handleRetryUploads },
         { text: 'Clear Completed', onPress: handleClearCompleted },
@@ -84,7 +120,20 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
   };
 
   const connectionStatusColor = appState.isFlicConnected ? '#4CAF50' : '#F44336';
-  const recordingStatusColor = appState.isRecording ? '#FF5722' : '#9E9E9E';
+  const recordingStatusColor = appState.isInterrupted
+    ? '#9C27B0'
+    : appState.isPaused ? '#FFC107' : appState.isRecording ? '#FF5722' : '#9E9E9E';
+  // Map -60..0 dBFS onto the meter width; anything quieter shows as empty
+  const levelFraction = appState.inputLevel === undefined
+    ? 0
+    : Math.min(1, Math.max(0, (appState.inputLevel + 60) / 60));
+  const levelColor = appState.inputLevel !== undefined && appState.inputLevel >= -1
+    ? '#F44336'
+    : levelFraction > 0.8 ? '#FFC107' : '#4CAF50';
+
+  const recordingStatusText = appState.isInterrupted
+    ? 'Interrupted - waiting for audio'
+    : appState.isPaused ? 'Paused' : appState.isRecording ? 'Recording...' : 'Idle';
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -108,10 +157,24 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
           <View style={styles.statusItem}>
             <View style={[styles.statusDot, { backgroundColor: recordingStatusColor }]} />
             <Text style={styles.statusText}>
-              {appState.isRecording ? 'Recording...' : 'Idle'}
+              {recordingStatusText}
             </Text>
           </View>
+          {appState.isRecording && !appState.isPaused && (
+            <View style={styles.levelMeter}>
+              <View style={[styles.levelFill, { width: `${levelFraction * 100}%`, backgroundColor: levelColor }]} />
+            </View>
+          )}
         </View>
+
+        {appState.isBuffering && (
+          <View style={styles.statusRow}>
+            <View style={styles.statusItem}>
+              <View style={[styles.statusDot, { backgroundColor: '#2196F3' }]} />
+              <Text style={styles.statusText}>Listening - click keeps the last moments</Text>
+            </View>
+          </View>
+        )}
       </View>
 
       {/* Kill Switch */}
@@ -125,6 +188,22 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
         />
       </View>
 
+      {/* Pre-roll Buffer */}
+      <View style={styles.killSwitchContainer}>
+        <View>
+          <Text style={styles.killSwitchLabel}>Pre-roll Buffer</Text>
+          <Text style={styles.switchHint}>
+            {appState.isBuffering ? '👂 Microphone is listening' : 'Keep recent audio before each click'}
+          </Text>
+        </View>
+        <Switch
+          value={appState.preRollEnabled}
+          onValueChange={handlePreRollToggle}
+          trackColor={{ false: '#767577', true: '#81b0ff' }}
+          thumbColor={appState.isBuffering ? '#2196F3' : '#f4f3f4'}
+        />
+      </View>
+
       {/* Manual Controls */}
       <View style={styles.controlsContainer}>
         <TouchableOpacity
@@ -140,6 +219,33 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
           </Text>
         </TouchableOpacity>
 
+        {appState.isRecording && (
+          <TouchableOpacity
+            style={[
+              styles.controlButton,
+              appState.isPaused ? styles.resumeButton : styles.pauseButton
+            ]}
+            onPress={handlePauseResume}
+            disabled={appState.killSwitchEnabled || appState.isInterrupted}
+          >
+            <Text style={styles.controlButtonText}>
+              {appState.isPaused ? '▶️ Resume Recording' : '⏸ Pause Recording'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {appState.isRecording && (
+          <TouchableOpacity
+            style={[styles.controlButton, styles.bookmarkButton]}
+            onPress={handleAddBookmark}
+            onLongPress={handleFlagMoment}
+            disabled={appState.killSwitchEnabled}
+          >
+            <Text style={styles.controlButtonText}>📍 Add Bookmark</Text>
+            <Text style={styles.controlButtonSubtext}>Hold to flag this moment</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={[
             styles.controlButton,
@@ -160,6 +266,13 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
           <Text style={styles.controlButtonText}>⚙️ Settings</Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.controlButton, styles.recordingsButton]}
+          onPress={onRecordingsPress}
+        >
+          <Text style={styles.controlButtonText}>📼 Recordings</Text>
+        </TouchableOpacity>
+
         {appState.lastRecordingUri && (
           <TouchableOpacity
             style={[styles.controlButton, styles.transcribeButton]}
@@ -187,6 +300,11 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
           </View>
           <Text style={styles.uploadSubtext}>Tap for details</Text>
         </TouchableOpacity>
+        {uploadStatus.pending + uploadStatus.uploading > 0 && (
+          <TouchableOpacity style={styles.cancelButton} onPress={handleCancelUploads}>
+            <Text style={styles.cancelButtonText}>⏹ Cancel Uploads</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Last Recording Info */}
@@ -201,36 +319,111 @@ export const HomeView: React.FC<HomeViewProps> = ({ controller, onPairingPress,
               Duration: {Math.round(appState.lastRecordingDuration / 1000)}s
             </Text>
           )}
+          {appState.lastRecordingBookmarks?.map(bookmark => (
+            <View key={bookmark.id} style={styles.bookmarkRow}>
+              <TouchableOpacity onPress={() => handleToggleBookmarkKind(bookmark)}>
+                <Text style={styles.bookmarkKind}>
+                  {bookmark.kind === 'flagged' ? '🚩' : bookmark.kind === 'auto' ? '✨' : '📍'}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.bookmarkOffset}>{formatOffset(bookmark.offset)}</Text>
+              <TextInput
+                style={styles.bookmarkLabelInput}
+                defaultValue={bookmark.label}
+                placeholder="Add label"
+                onEndEditing={(event) => controller.updateBookmark(bookmark.id, { label: event.nativeEvent.text.trim() || undefined })}
+              />
+            </View>
+          ))}
         </View>
       )}
 
       {/* Transcription Results */}
       {(appState.isTranscribing || appState.lastTranscription) && (
         <View style={styles.transcriptionContainer}>
-          <Text style={styles.transcriptionTitle}>Transcription</Text>
+          <Text style={styles.transcriptionTitle}>
+            Transcription
+            {appState.lastTranscriptionLanguage && !appState.isTranscribing
+              ? ` · 🌐 ${getLanguageName(appState.lastTranscriptionLanguage)}`
+              : ''}
+          </Text>
           {appState.isTranscribing ? (
             <View style={styles.transcribingStatus}>
               <Text style={styles.transcribingText}>Transcribing audio...</Text>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => controller.cancelLastTranscription()}>
+                <Text style={styles.cancelButtonText}>⏹ Cancel</Text>
+              </TouchableOpacity>
             </View>
           ) : appState.lastTranscription ? (
             <View>
-              <Text style={styles.transcriptionText}>{appState.lastTranscription}</Text>
+              {appState.lastTranscriptTurns ? (
+                <View style={styles.conversation}>
+                  {appState.lastTranscriptTurns.map((turn, index) => (
+                    <View key={`${turn.start}-${index}`} style={styles.speakerTurn}>
+                      <Text style={styles.speakerName}>
+                        {turn.name}  <Text style={styles.speakerTime}>{formatOffset(turn.start)}</Text>
+                      </Text>
+                      <Text style={styles.excerptText}>{turn.text}</Text>
+                    </View>
+                  ))}
+                </View>
+              ) : (
+                <Text style={styles.transcriptionText}>{appState.lastTranscription}</Text>
+              )}
+              {appState.lastRecordingExcerpts?.map(excerpt => (
+                <View key={excerpt.bookmarkId} style={styles.excerpt}>
+                  <Text style={styles.excerptHeader}>
+                    {excerpt.kind === 'flagged' ? '🚩' : excerpt.kind === 'auto' ? '✨' : '📍'} {formatOffset(excerpt.offset)}
+                    {excerpt.label ? `  ${excerpt.label}` : ''}
+                  </Text>
+                  <Text style={styles.excerptText}>{excerpt.text}</Text>
+                </View>
+              ))}
               <TouchableOpacity 
                 style={styles.retranscribeButton}
                 onPress={() => controller.retranscribeLastRecording()}
+                disabled={appState.isTranscribing}
               >
                 <Text style={styles.retranscribeButtonText}>🔄 Retranscribe</Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.retranscribeButton, styles.summarizeButton]}
+                onPress={() => controller.summarizeLastRecording()}
+                disabled={appState.isSummarizing}
+              >
+                <Text style={styles.retranscribeButtonText}>
+                  {appState.isSummarizing ? 'Summarizing...' : appState.lastRecordingSummary ? '📋 Summarize Again' : '📋 Summarize'}
+                </Text>
+              </TouchableOpacity>
             </View>
           ) : null}
         </View>
       )}
 
+      {/* Summary */}
+      {appState.lastRecordingSummary && (
+        <View style={styles.transcriptionContainer}>
+          <Text style={styles.transcriptionTitle}>
+            {appState.lastRecordingSummary.title || 'Summary'}
+          </Text>
+          <Text style={styles.transcriptionText}>{appState.lastRecordingSummary.summary}</Text>
+          {appState.lastRecordingSummary.actionItems.length > 0 && (
+            <View>
+              <Text style={styles.excerptHeader}>Action items</Text>
+              {appState.lastRecordingSummary.actionItems.map((item, index) => (
+                <Text key={index} style={styles.excerptText}>☐ {item}</Text>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+
       {/* Instructions */}
       <View style={styles.instructionsContainer}>
         <Text style={styles.instructionsTitle}>Button Actions</Text>
         <Text style={styles.instructionText}>• Single click: Start recording / Add bookmark</Text>
         <Text style={styles.instructionText}>• Double click: Stop and save</Text>
+        <Text style={styles.instructionText}>• Triple click: Pause / resume</Text>
         <Text style={styles.instructionText}>• Hold: Stop and flag as important</Text>
       </View>
     </ScrollView>
@@ -288,6 +481,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  levelMeter: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#eee',
+    marginTop: 8,
+    marginLeft: 22,
+    overflow: 'hidden',
+  },
+  levelFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
   killSwitchContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -307,6 +512,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#333',
   },
+  switchHint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
   controlsContainer: {
     marginBottom: 20,
   },
@@ -327,6 +537,21 @@ const styles = StyleSheet.create({
   stopButton: {
     backgroundColor: '#F44336',
   },
+  pauseButton: {
+    backgroundColor: '#FFC107',
+  },
+  resumeButton: {
+    backgroundColor: '#4CAF50',
+  },
+  bookmarkButton: {
+    backgroundColor: '#673AB7',
+  },
+  controlButtonSubtext: {
+    color: 'white',
+    fontSize: 12,
+    marginTop: 2,
+    opacity: 0.8,
+  },
   pairingButton: {
     backgroundColor: '#2196F3',
   },
@@ -336,6 +561,9 @@ const styles = StyleSheet.create({
   settingsButton: {
     backgroundColor: '#9E9E9E',
   },
+  recordingsButton: {
+    backgroundColor: '#607D8B',
+  },
   transcribeButton: {
     backgroundColor: '#8BC34A',
   },
@@ -381,6 +609,21 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 5,
   },
+  cancelButton: {
+    borderWidth: 1,
+    borderColor: '#F44336',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginTop: 10,
+  },
+  cancelButtonText: {
+    color: '#F44336',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   lastRecordingContainer: {
     backgroundColor: 'white',
     borderRadius: 10,
@@ -403,6 +646,29 @@ const styles = StyleSheet.create({
     color: '#555',
     marginBottom: 5,
   },
+  bookmarkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  bookmarkKind: {
+    fontSize: 18,
+    marginRight: 8,
+  },
+  bookmarkOffset: {
+    fontSize: 14,
+    color: '#555',
+    fontFamily: 'monospace',
+    marginRight: 8,
+  },
+  bookmarkLabelInput: {
+    flex: 1,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+    paddingVertical: 4,
+    fontSize: 14,
+    color: '#333',
+  },
   instructionsContainer: {
     backgroundColor: 'white',
     borderRadius: 10,
@@ -451,6 +717,42 @@ const styles = StyleSheet.create({
     padding: 12,
     borderRadius: 6,
   },
+  conversation: {
+    backgroundColor: '#f8f8f8',
+    padding: 12,
+    borderRadius: 6,
+    marginBottom: 10,
+  },
+  speakerTurn: {
+    marginBottom: 8,
+  },
+  speakerName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2196F3',
+    marginBottom: 2,
+  },
+  speakerTime: {
+    fontWeight: 'normal',
+    color: '#999',
+  },
+  excerpt: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#673AB7',
+    paddingLeft: 10,
+    marginBottom: 10,
+  },
+  excerptHeader: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#555',
+    marginBottom: 2,
+  },
+  excerptText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
   transcribingStatus: {
     alignItems: 'center',
     padding: 20,
@@ -466,6 +768,10 @@ const styles = StyleSheet.create({
     padding: 8,
     alignItems: 'center',
   },
+  summarizeButton: {
+    backgroundColor: '#673AB7',
+    marginTop: 8,
+  },
   retranscribeButtonText: {
     color: 'white',
     fontSize: 14,
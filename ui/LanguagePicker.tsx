@@ -0,0 +1,61 @@
+import React from 'react';
+import { ScrollView, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AUTO_LANGUAGE, LANGUAGES, getLanguageName } from '../services/Languages';
+
+interface LanguagePickerProps {
+  value?: string; // undefined selects the "default" option when one is shown
+  onChange: (language: string | undefined) => void;
+  defaultLabel?: string; // adds a first option that clears the choice
+}
+
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ value, onChange, defaultLabel }) => {
+  const options: { key: string; label: string; value?: string }[] = [
+    ...(defaultLabel ? [{ key: 'default', label: defaultLabel, value: undefined }] : []),
+    { key: AUTO_LANGUAGE, label: getLanguageName(AUTO_LANGUAGE), value: AUTO_LANGUAGE },
+    ...LANGUAGES.map(language => ({ key: language.code, label: language.name, value: language.code })),
+  ];
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      {options.map(option => {
+        const selected = option.value === value;
+        return (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.chip, selected && styles.selectedChip]}
+            onPress={() => onChange(option.value)}
+          >
+            <Text style={[styles.chipText, selected && styles.selectedChipText]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    paddingVertical: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    backgroundColor: '#fff',
+  },
+  selectedChip: {
+    borderColor: '#2196F3',
+    backgroundColor: '#e3f2fd',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  selectedChipText: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+});
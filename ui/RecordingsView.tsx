@@ -0,0 +1,903 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  Alert,
+  GestureResponderEvent,
+} from 'react-native';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { AppController, AppState, AppStateListener } from '../services/AppController';
+import { RecordingEntry } from '../services/RecordingStore';
+import { Bookmark } from '../services/Bookmarks';
+import { SearchIndex, SearchResult, SearchField } from '../services/SearchIndex';
+import { getLanguageName } from '../services/Languages';
+import { getSpeakerName, groupSpeakerTurns, hasSpeakers, listSpeakers } from '../services/Speakers';
+import { EXPORT_FORMATS, ExportFormat } from '../services/TranscriptFormats';
+import { ExportDestination } from '../services/ExportService';
+import { LanguagePicker } from './LanguagePicker';
+
+interface RecordingsViewProps {
+  controller: AppController;
+  onBack: () => void;
+}
+
+const SNIPPET_LENGTH = 120;
+
+const formatTime = (millis: number) => {
+  const totalSeconds = Math.floor(millis / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const padded = `${minutes.toString().padStart(hours ? 2 : 1, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours ? `${hours}:${padded}` : padded;
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const SEARCH_FIELD_ICONS: Record<SearchField, string> = {
+  transcript: '💬',
+  bookmark: '📍',
+  tag: '🏷️',
+};
+
+const uploadStatusLabel = (recording: RecordingEntry) => {
+  switch (recording.uploadStatus) {
+    case 'completed': return '☁️ Uploaded';
+    case 'uploading': return '⏫ Uploading';
+    case 'pending': return '⏳ Waiting to upload';
+    case 'failed': return '⚠️ Upload failed';
+    case 'cancelled': return '⏹️ Upload cancelled';
+    default: return '📱 Local only';
+  }
+};
+
+const transcriptionStatusLabel = (recording: RecordingEntry) => {
+  switch (recording.transcriptionStatus) {
+    case 'pending': return '⏳ Waiting to transcribe';
+    case 'transcribing': return '🔄 Transcribing...';
+    case 'failed': return '⚠️ Transcription failed';
+    case 'cancelled': return '⏹️ Transcription cancelled';
+    default: return 'No transcript';
+  }
+};
+
+export const RecordingsView: React.FC<RecordingsViewProps> = ({ controller, onBack }) => {
+  const [appState, setAppState] = useState<AppState>(controller.currentState);
+  const [recordings, setRecordings] = useState<RecordingEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selection, setSelection] = useState<{ id: string; positionMillis?: number } | null>(null);
+  const [query, setQuery] = useState('');
+
+  const loadRecordings = useCallback(async () => {
+    try {
+      setRecordings(await controller.getRecordings());
+    } catch (error) {
+      console.error('Failed to load recordings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [controller]);
+
+  useEffect(() => {
+    const listener: AppStateListener = {
+      onStateChange: (state: AppState) => {
+        setAppState(state);
+      }
+    };
+
+    controller.addStateListener(listener);
+    loadRecordings();
+
+    return () => {
+      controller.removeStateListener(listener);
+    };
+  }, [controller, loadRecordings]);
+
+  // A finished recording or transcription changes the catalog
+  useEffect(() => {
+    loadRecordings();
+  }, [appState.lastRecordingUri, appState.isTranscribing, loadRecordings]);
+
+  const searchIndex = useMemo(() => {
+    const index = new SearchIndex();
+    index.build(recordings);
+    return index;
+  }, [recordings]);
+  const results: SearchResult[] = useMemo(() => searchIndex.search(query), [searchIndex, query]);
+  const isSearching = query.trim().length > 0;
+
+  const selected = recordings.find(recording => recording.id === selection?.id);
+
+  const handleSelect = (recording: RecordingEntry) => {
+    setSelection(recording.id === selection?.id ? null : { id: recording.id });
+  };
+
+  const handleOpenResult = (result: SearchResult) => {
+    setSelection({ id: result.recording.id, positionMillis: result.positionMillis });
+  };
+
+  const handleTranscribe = async (recording: RecordingEntry) => {
+    await controller.retranscribeRecording(recording.id);
+    await loadRecordings();
+  };
+
+  const handleLanguageChange = async (recording: RecordingEntry, language?: string) => {
+    await controller.setRecordingLanguage(recording.id, language);
+    await loadRecordings();
+  };
+
+  const handleSpeakerRename = async (recording: RecordingEntry, speaker: string, name: string) => {
+    await controller.setSpeakerName(recording.id, speaker, name);
+    await loadRecordings();
+  };
+
+  const handleBookmarkChange = async (
+    recording: RecordingEntry,
+    bookmark: Bookmark,
+    changes: Partial<Omit<Bookmark, 'id'>>
+  ) => {
+    await controller.updateRecordingBookmark(recording.id, bookmark.id, changes);
+    await loadRecordings();
+  };
+
+  const handleCancelTranscription = async (recording: RecordingEntry) => {
+    await controller.cancelTranscription(recording.id);
+    await loadRecordings();
+  };
+
+  const handleExport = async (recording: RecordingEntry, format: ExportFormat, destination: ExportDestination) => {
+    await controller.exportRecording(recording.id, format, destination);
+  };
+
+  const handleDelete = (recording: RecordingEntry) => {
+    Alert.alert(
+      'Delete Recording',
+      `Delete the recording from ${formatDate(recording.createdAt)} and its audio? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await controller.deleteRecording(recording.id);
+            setSelection(null);
+            await loadRecordings();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleTagsChange = async (recording: RecordingEntry, text: string) => {
+    await controller.setRecordingTags(recording.id, text.split(','));
+    await loadRecordings();
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={false} onRefresh={loadRecordings} />}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Recordings</Text>
+      </View>
+
+      <TextInput
+        style={styles.searchInput}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search transcripts, bookmarks and tags"
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
+
+      {selected && (
+        appState.isRecording || appState.isBuffering ? (
+          // The microphone would pick up the playback
+          <View style={styles.card}>
+            <Text style={styles.emptyText}>
+              {appState.isRecording
+                ? 'Playback is unavailable while recording'
+                : 'Playback is unavailable while the pre-roll buffer is listening. Turn it off on the home screen to play.'}
+            </Text>
+          </View>
+        ) : (
+          <RecordingPlayer
+            // Remount so a new search hit starts playback at its own position
+            key={`${selected.id}:${selection?.positionMillis ?? 0}`}
+            recording={selected}
+            initialPositionMillis={selection?.positionMillis}
+            onTagsChange={(text) => handleTagsChange(selected, text)}
+            onBookmarkChange={(bookmark, changes) => handleBookmarkChange(selected, bookmark, changes)}
+            onLanguageChange={(language) => handleLanguageChange(selected, language)}
+            onSpeakerRename={(speaker, name) => handleSpeakerRename(selected, speaker, name)}
+            onExport={(format, destination) => handleExport(selected, format, destination)}
+            onTranscribe={() => handleTranscribe(selected)}
+            onCancelTranscription={() => handleCancelTranscription(selected)}
+            onDelete={() => handleDelete(selected)}
+          />
+        )
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#2196F3" style={styles.spinner} />
+      ) : isSearching ? (
+        results.length === 0 ? (
+          <View style={styles.card}>
+            <Text style={styles.emptyText}>No matches for "{query.trim()}"</Text>
+          </View>
+        ) : (
+          results.map(result => (
+            <TouchableOpacity
+              key={result.recording.id}
+              style={[styles.card, result.recording.id === selection?.id && styles.selectedCard]}
+              onPress={() => handleOpenResult(result)}
+            >
+              <View style={styles.recordingHeader}>
+                <Text style={styles.recordingDate}>
+                  {result.recording.flagged ? '🚩 ' : ''}{formatDate(result.recording.createdAt)}
+                </Text>
+                {result.positionMillis !== undefined && (
+                  <Text style={styles.recordingDuration}>@ {formatTime(result.positionMillis)}</Text>
+                )}
+              </View>
+              <Text style={styles.snippet} numberOfLines={3}>
+                {SEARCH_FIELD_ICONS[result.field]} {result.snippet}
+              </Text>
+            </TouchableOpacity>
+          ))
+        )
+      ) : recordings.length === 0 ? (
+        <View style={styles.card}>
+          <Text style={styles.emptyText}>No recordings yet</Text>
+        </View>
+      ) : (
+        recordings.map(recording => (
+          <TouchableOpacity
+            key={recording.id}
+            style={[styles.card, recording.id === selection?.id && styles.selectedCard]}
+            onPress={() => handleSelect(recording)}
+          >
+            <View style={styles.recordingHeader}>
+              <Text style={styles.recordingDate}>
+                {recording.flagged ? '🚩 ' : ''}{formatDate(recording.createdAt)}
+              </Text>
+              <Text style={styles.recordingDuration}>
+                {recording.durationMillis ? formatTime(recording.durationMillis) : '--:--'}
+              </Text>
+            </View>
+            <Text style={styles.recordingMeta}>
+              {uploadStatusLabel(recording)}
+              {recording.bookmarks.length > 0 ? `  ·  📍 ${recording.bookmarks.length}` : ''}
+              {recording.tags?.length ? `  ·  🏷️ ${recording.tags.join(', ')}` : ''}
+              {recording.detectedLanguage ? `  ·  🌐 ${getLanguageName(recording.detectedLanguage)}` : ''}
+            </Text>
+            {recording.transcript ? (
+              <Text style={styles.snippet} numberOfLines={3}>
+                {recording.transcript.length > SNIPPET_LENGTH
+                  ? `${recording.transcript.slice(0, SNIPPET_LENGTH).trim()}…`
+                  : recording.transcript}
+              </Text>
+            ) : (
+              <Text style={styles.noTranscript}>{transcriptionStatusLabel(recording)}</Text>
+            )}
+          </TouchableOpacity>
+        ))
+      )}
+    </ScrollView>
+  );
+};
+
+interface RecordingPlayerProps {
+  recording: RecordingEntry;
+  initialPositionMillis?: number;
+  onTagsChange: (text: string) => void;
+  onBookmarkChange: (bookmark: Bookmark, changes: Partial<Omit<Bookmark, 'id'>>) => void;
+  onLanguageChange: (language?: string) => void;
+  onSpeakerRename: (speaker: string, name: string) => void;
+  onExport: (format: ExportFormat, destination: ExportDestination) => void;
+  onTranscribe: () => void;
+  onCancelTranscription: () => void;
+  onDelete: () => void;
+}
+
+// Plays a recording's segment files back to back as one timeline, so bookmark offsets line up
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({
+  recording,
+  initialPositionMillis,
+  onTagsChange,
+  onBookmarkChange,
+  onLanguageChange,
+  onSpeakerRename,
+  onExport,
+  onTranscribe,
+  onCancelTranscription,
+  onDelete,
+}) => {
+  const files = recording.segments?.length ? recording.segments : [recording.path];
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const unmountedRef = useRef(false);
+  const segmentIndexRef = useRef(0);
+  const segmentStartsRef = useRef<number[]>([0]);
+  const [durationMillis, setDurationMillis] = useState(0);
+  const [positionMillis, setPositionMillis] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [barWidth, setBarWidth] = useState(0);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const prepare = async () => {
+      try {
+        // The recorder leaves iOS routing audio to the earpiece
+        await Audio.setAudioModeAsync({
+          allowsRecordingIOS: false,
+          playsInSilentModeIOS: true,
+        });
+
+        // Segment lengths are needed up front to map a timeline position onto a file
+        const starts: number[] = [];
+        let total = 0;
+        for (const uri of files) {
+          starts.push(total);
+          const { sound, status } = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+          total += status.isLoaded ? status.durationMillis || 0 : 0;
+          await sound.unloadAsync();
+        }
+        if (cancelled) return;
+
+        segmentStartsRef.current = starts;
+        setDurationMillis(total);
+
+        const start = Math.min(initialPositionMillis || 0, total);
+        const index = findSegment(start);
+        setPositionMillis(start);
+        await loadSegment(index, start - starts[index], false);
+        if (!cancelled) setIsReady(true);
+      } catch (loadError) {
+        console.error('Failed to load recording for playback:', loadError);
+        if (!cancelled) setError('Could not load this recording');
+      }
+    };
+
+    prepare();
+
+    return () => {
+      cancelled = true;
+      unmountedRef.current = true;
+      soundRef.current?.unloadAsync().catch(() => {});
+      soundRef.current = null;
+    };
+  }, [recording.id]);
+
+  const handleStatusUpdate = (index: number) => (status: AVPlaybackStatus) => {
+    if (!status.isLoaded || index !== segmentIndexRef.current) return;
+
+    setPositionMillis(segmentStartsRef.current[index] + status.positionMillis);
+    setIsPlaying(status.isPlaying);
+
+    if (status.didJustFinish && index < files.length - 1) {
+      loadSegment(index + 1, 0, true).catch(console.error);
+    }
+  };
+
+  const loadSegment = async (index: number, segmentPosition: number, shouldPlay: boolean) => {
+    const previous = soundRef.current;
+    soundRef.current = null;
+    segmentIndexRef.current = index;
+    await previous?.unloadAsync();
+
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: files[index] },
+      { shouldPlay, positionMillis: segmentPosition, progressUpdateIntervalMillis: 250 },
+      handleStatusUpdate(index)
+    );
+    if (unmountedRef.current) {
+      // Finished loading after the player closed
+      await sound.unloadAsync();
+      return;
+    }
+    soundRef.current = sound;
+  };
+
+  const findSegment = (millis: number) => {
+    const starts = segmentStartsRef.current;
+    let index = starts.length - 1;
+    while (index > 0 && starts[index] > millis) index--;
+    return index;
+  };
+
+  const seekTo = async (millis: number) => {
+    const target = Math.max(0, Math.min(millis, durationMillis));
+    const starts = segmentStartsRef.current;
+    const index = findSegment(target);
+
+    setPositionMillis(target);
+    try {
+      if (index === segmentIndexRef.current && soundRef.current) {
+        await soundRef.current.setPositionAsync(target - starts[index]);
+      } else {
+        await loadSegment(index, target - starts[index], isPlaying);
+      }
+    } catch (seekError) {
+      console.error('Seek failed:', seekError);
+    }
+  };
+
+  const handlePlayPause = async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      if (isPlaying) {
+        await sound.pauseAsync();
+      } else if (positionMillis >= durationMillis - 250) {
+        // Finished: start over from the top
+        await loadSegment(0, 0, true);
+      } else {
+        await sound.playAsync();
+      }
+    } catch (playError) {
+      console.error('Playback failed:', playError);
+    }
+  };
+
+  const handleBarPress = (event: GestureResponderEvent) => {
+    if (barWidth > 0) {
+      seekTo((event.nativeEvent.locationX / barWidth) * durationMillis);
+    }
+  };
+
+  if (error) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.errorText}>{error}</Text>
+        <TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+          <Text style={styles.deleteButtonText}>🗑️ Delete Recording</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const progress = durationMillis > 0 ? positionMillis / durationMillis : 0;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.playerTitle}>{recording.path.split('/').pop()}</Text>
+
+      <TouchableWithoutFeedback onPress={handleBarPress} disabled={!isReady}>
+        <View style={styles.seekBar} onLayout={(event) => setBarWidth(event.nativeEvent.layout.width)}>
+          <View style={styles.seekTrack}>
+            <View style={[styles.seekFill, { width: `${progress * 100}%` }]} />
+          </View>
+          {isReady && durationMillis > 0 && recording.bookmarks.map(bookmark => (
+            <TouchableOpacity
+              key={bookmark.id}
+              style={[
+                styles.marker,
+                { left: Math.min(1, (bookmark.offset * 1000) / durationMillis) * barWidth - 8 },
+              ]}
+              hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}
+              onPress={() => seekTo(bookmark.offset * 1000)}
+            >
+              <Text style={styles.markerText}>{bookmark.kind === 'flagged' ? '🚩' : '📍'}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </TouchableWithoutFeedback>
+
+      <View style={styles.timeRow}>
+        <Text style={styles.timeText}>{formatTime(positionMillis)}</Text>
+        <Text style={styles.timeText}>{formatTime(durationMillis)}</Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.playButton, !isReady && styles.disabledButton]}
+        onPress={handlePlayPause}
+        disabled={!isReady}
+      >
+        {isReady ? (
+          <Text style={styles.playButtonText}>{isPlaying ? '⏸ Pause' : '▶️ Play'}</Text>
+        ) : (
+          <ActivityIndicator size="small" color="white" />
+        )}
+      </TouchableOpacity>
+
+      {recording.bookmarks.map(bookmark => (
+        <View key={bookmark.id} style={styles.bookmarkRow}>
+          <TouchableOpacity
+            onPress={() => onBookmarkChange(bookmark, { kind: bookmark.kind === 'flagged' ? 'manual' : 'flagged' })}
+          >
+            <Text style={styles.bookmarkKind}>
+              {bookmark.kind === 'flagged' ? '🚩' : bookmark.kind === 'auto' ? '✨' : '📍'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => seekTo(bookmark.offset * 1000)} disabled={!isReady}>
+            <Text style={styles.bookmarkOffset}>{formatTime(bookmark.offset * 1000)}</Text>
+          </TouchableOpacity>
+          <TextInput
+            style={styles.bookmarkLabelInput}
+            defaultValue={bookmark.label}
+            placeholder="Add label"
+            onEndEditing={(event) => onBookmarkChange(bookmark, { label: event.nativeEvent.text.trim() || undefined })}
+          />
+        </View>
+      ))}
+
+      {hasSpeakers(recording.transcriptSegments) && (
+        <View>
+          <Text style={styles.languageLabel}>Speakers</Text>
+          {listSpeakers(recording.transcriptSegments).map(speaker => (
+            <TextInput
+              key={speaker}
+              style={styles.tagsInput}
+              defaultValue={recording.speakerNames?.[speaker]}
+              placeholder={getSpeakerName(speaker)}
+              onEndEditing={(event) => onSpeakerRename(speaker, event.nativeEvent.text)}
+            />
+          ))}
+
+          {groupSpeakerTurns(recording.transcriptSegments || [], recording.speakerNames).map((turn, index) => (
+            <TouchableOpacity
+              key={`${turn.start}-${index}`}
+              style={styles.speakerTurn}
+              onPress={() => seekTo(turn.start * 1000)}
+              disabled={!isReady}
+            >
+              <Text style={styles.speakerName}>
+                {turn.name}  <Text style={styles.bookmarkOffset}>{formatTime(turn.start * 1000)}</Text>
+              </Text>
+              <Text style={styles.bookmarkLabel}>{turn.text}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        style={styles.tagsInput}
+        defaultValue={recording.tags?.join(', ')}
+        placeholder="Tags, separated by commas"
+        autoCapitalize="none"
+        onEndEditing={(event) => onTagsChange(event.nativeEvent.text)}
+      />
+
+      <Text style={styles.languageLabel}>
+        Transcription language
+        {recording.detectedLanguage ? ` · detected ${getLanguageName(recording.detectedLanguage)}` : ''}
+      </Text>
+      <LanguagePicker value={recording.language} onChange={onLanguageChange} defaultLabel="Default" />
+
+      {recording.transcriptionStatus === 'pending' || recording.transcriptionStatus === 'transcribing' ? (
+        <TouchableOpacity style={[styles.transcribeButton, styles.cancelButton]} onPress={onCancelTranscription}>
+          <Text style={styles.transcribeButtonText}>⏹ Cancel Transcription</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity style={styles.transcribeButton} onPress={onTranscribe}>
+          <Text style={styles.transcribeButtonText}>
+            {recording.transcript ? '🔄 Retranscribe' : '📝 Transcribe'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {recording.transcript && (
+        <View>
+          <Text style={styles.languageLabel}>Export transcript</Text>
+          <View style={styles.exportFormats}>
+            {Object.values(EXPORT_FORMATS).map(format => (
+              <TouchableOpacity
+                key={format.id}
+                style={[styles.exportFormat, exportFormat === format.id && styles.selectedExportFormat]}
+                onPress={() => setExportFormat(format.id)}
+              >
+                <Text style={[styles.exportFormatText, exportFormat === format.id && styles.selectedExportFormatText]}>
+                  {format.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.exportActions}>
+            <TouchableOpacity style={[styles.exportButton, styles.exportShareButton]} onPress={() => onExport(exportFormat, 'share')}>
+              <Text style={styles.transcribeButtonText}>📤 Share</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.exportButton} onPress={() => onExport(exportFormat, 'documents')}>
+              <Text style={styles.transcribeButtonText}>💾 Save to Files</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+        <Text style={styles.deleteButtonText}>🗑️ Delete Recording</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 30,
+  },
+  backButton: {
+    marginRight: 15,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  searchInput: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 15,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  spinner: {
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    marginBottom: 15,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  selectedCard: {
+    borderWidth: 2,
+    borderColor: '#2196F3',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#F44336',
+    textAlign: 'center',
+  },
+  recordingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 5,
+  },
+  recordingDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  recordingDuration: {
+    fontSize: 16,
+    color: '#555',
+    fontFamily: 'monospace',
+  },
+  recordingMeta: {
+    fontSize: 13,
+    color: '#777',
+    marginBottom: 8,
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#444',
+    lineHeight: 20,
+  },
+  noTranscript: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  playerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 15,
+  },
+  seekBar: {
+    height: 36,
+    justifyContent: 'center',
+  },
+  seekTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#eee',
+    overflow: 'hidden',
+  },
+  seekFill: {
+    height: '100%',
+    backgroundColor: '#2196F3',
+  },
+  marker: {
+    position: 'absolute',
+    top: 0,
+    width: 16,
+    alignItems: 'center',
+  },
+  markerText: {
+    fontSize: 12,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 15,
+  },
+  timeText: {
+    fontSize: 12,
+    color: '#777',
+    fontFamily: 'monospace',
+  },
+  playButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 10,
+    padding: 14,
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  playButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  bookmarkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  bookmarkKind: {
+    fontSize: 18,
+    marginRight: 8,
+  },
+  bookmarkOffset: {
+    fontSize: 14,
+    color: '#555',
+    fontFamily: 'monospace',
+    marginRight: 8,
+  },
+  bookmarkLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  bookmarkLabelInput: {
+    flex: 1,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+    paddingVertical: 4,
+    fontSize: 14,
+    color: '#333',
+  },
+  transcribeButton: {
+    backgroundColor: '#FF9800',
+    borderRadius: 6,
+    padding: 8,
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderColor: '#F44336',
+    borderRadius: 6,
+    paddingVertical: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  deleteButtonText: {
+    color: '#F44336',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    backgroundColor: '#F44336',
+  },
+  transcribeButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  speakerTurn: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  speakerName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2196F3',
+    marginBottom: 2,
+  },
+  languageLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  exportFormats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  exportFormat: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedExportFormat: {
+    borderColor: '#2196F3',
+    backgroundColor: '#e3f2fd',
+  },
+  exportFormatText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  selectedExportFormatText: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  exportActions: {
+    flexDirection: 'row',
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: '#4CAF50',
+    borderRadius: 6,
+    padding: 8,
+    alignItems: 'center',
+  },
+  exportShareButton: {
+    backgroundColor: '#2196F3',
+    marginRight: 8,
+  },
+  tagsInput: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+    paddingVertical: 6,
+    marginTop: 10,
+    fontSize: 14,
+    color: '#333',
+  },
+});
@@ -6,19 +6,82 @@ import {
   TouchableOpacity,
   TextInput,
   ScrollView,
+  Switch,
   Alert,
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_RECORDING_PROFILE,
+  RECORDING_PROFILES,
+  RecordingProfileId,
+  getRecordingProfile,
+} from '../services/RecordingProfiles';
+import { DEFAULT_EXCERPT_WINDOW } from '../services/Excerpts';
+import { DEFAULT_LANGUAGE } from '../services/Languages';
+import {
+  Correction,
+  loadCorrections,
+  loadGlossary,
+  parseGlossary,
+  saveCorrections,
+  saveGlossary,
+} from '../services/Vocabulary';
+import {
+  DEFAULT_SUMMARY_SETTINGS,
+  SummarySettings,
+  isLocalBaseUrl,
+  loadSummarySettings,
+  saveSummarySettings,
+} from '../services/SummaryService';
+import {
+  DEFAULT_BUDGET_SETTINGS,
+  UsageSummary,
+  formatCost,
+  loadBudgetSettings,
+  loadUsageEntries,
+  saveBudgetSettings,
+  summarizeUsage,
+} from '../services/UsageLedger';
+import { transcriptionProviders } from '../services/TranscriptionService';
+import {
+  ProviderSettings,
+  clearProviderSettings,
+  getProviderOrder,
+  isProviderConfigured,
+  loadLocalOnly,
+  loadProviderSettings,
+  saveLocalOnly,
+  saveProviderOrder,
+  saveProviderSettings,
+} from '../services/TranscriptionProviders';
+import { LanguagePicker } from './LanguagePicker';
 
 interface SettingsViewProps {
   onBack: () => void;
 }
 
 export const SettingsView: React.FC<SettingsViewProps> = ({ onBack }) => {
-  const [openaiKey, setOpenaiKey] = useState('');
-  const [assemblyaiKey, setAssemblyaiKey] = useState('');
-  const [preferredProvider, setPreferredProvider] = useState<'openai' | 'assemblyai'>('openai');
+  const [providerOrder, setProviderOrder] = useState<string[]>(
+    transcriptionProviders.getAll().map(provider => provider.id)
+  );
+  const [providerSettings, setProviderSettings] = useState<Record<string, ProviderSettings>>({});
+  const [localOnly, setLocalOnly] = useState(false);
+  const [silenceTimeoutMinutes, setSilenceTimeoutMinutes] = useState('0');
+  const [preRollSeconds, setPreRollSeconds] = useState('30');
+  const [maxDurationMinutes, setMaxDurationMinutes] = useState('180');
+  const [minFreeSpaceMB, setMinFreeSpaceMB] = useState('200');
+  const [excerptBeforeSeconds, setExcerptBeforeSeconds] = useState(String(DEFAULT_EXCERPT_WINDOW.beforeSeconds));
+  const [excerptAfterSeconds, setExcerptAfterSeconds] = useState(String(DEFAULT_EXCERPT_WINDOW.afterSeconds));
+  const [transcriptionLanguage, setTranscriptionLanguage] = useState(DEFAULT_LANGUAGE);
+  const [glossaryText, setGlossaryText] = useState('');
+  const [corrections, setCorrections] = useState<Correction[]>([]);
+  const [summarySettings, setSummarySettings] = useState<SummarySettings>(DEFAULT_SUMMARY_SETTINGS);
+  const [monthlyBudget, setMonthlyBudget] = useState('');
+  const [pauseWhenOverBudget, setPauseWhenOverBudget] = useState(DEFAULT_BUDGET_SETTINGS.pauseWhenExceeded);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [recordingProfile, setRecordingProfile] = useState<RecordingProfileId>(DEFAULT_RECORDING_PROFILE);
   const [isSaving, setIsSaving] = useState(false);
+  const [testingProvider, setTestingProvider] = useState<string | null>(null);
 
   useEffect(() => {
     loadSettings();
@@ -26,33 +89,124 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ onBack }) => {
 
   const loadSettings = async () => {
     try {
-      const savedOpenAI = await AsyncStorage.getItem('openai_api_key');
-      const savedAssemblyAI = await AsyncStorage.getItem('assemblyai_api_key');
-      const savedProvider = await AsyncStorage.getItem('preferred_provider');
+      const savedProviderSettings: Record<string, ProviderSettings> = {};
+      for (const provider of transcriptionProviders.getAll()) {
+        savedProviderSettings[provider.id] = await loadProviderSettings(provider);
+      }
+      setProviderSettings(savedProviderSettings);
+      setProviderOrder(await getProviderOrder());
+      setLocalOnly(await loadLocalOnly());
+      setGlossaryText((await loadGlossary()).join('\n'));
+      setCorrections(await loadCorrections());
+      setSummarySettings(await loadSummarySettings());
+      const budget = await loadBudgetSettings();
+      setMonthlyBudget(budget.monthlyBudget ? String(budget.monthlyBudget) : '');
+      setPauseWhenOverBudget(budget.pauseWhenExceeded);
+      setUsage(summarizeUsage(await loadUsageEntries()));
 
-      if (savedOpenAI) setOpenaiKey(savedOpenAI);
-      if (savedAssemblyAI) setAssemblyaiKey(savedAssemblyAI);
-      if (savedProvider) setPreferredProvider(savedProvider as 'openai' | 'assemblyai');
+      const savedSilenceTimeout = await AsyncStorage.getItem('silence_timeout_seconds');
+      const savedProfile = await AsyncStorage.getItem('recording_profile');
+      const savedPreRoll = await AsyncStorage.getItem('preroll_seconds');
+      const savedMaxDuration = await AsyncStorage.getItem('max_duration_minutes');
+      const savedMinFreeSpace = await AsyncStorage.getItem('min_free_space_mb');
+      const savedExcerptBefore = await AsyncStorage.getItem('excerpt_before_seconds');
+      const savedExcerptAfter = await AsyncStorage.getItem('excerpt_after_seconds');
+      const savedLanguage = await AsyncStorage.getItem('transcription_language');
+
+      if (savedSilenceTimeout) setSilenceTimeoutMinutes(String(Number(savedSilenceTimeout) / 60));
+      if (savedProfile) setRecordingProfile(getRecordingProfile(savedProfile).id);
+      if (savedPreRoll) setPreRollSeconds(savedPreRoll);
+      if (savedMaxDuration) setMaxDurationMinutes(savedMaxDuration);
+      if (savedMinFreeSpace) setMinFreeSpaceMB(savedMinFreeSpace);
+      if (savedExcerptBefore) setExcerptBeforeSeconds(savedExcerptBefore);
+      if (savedExcerptAfter) setExcerptAfterSeconds(savedExcerptAfter);
+      if (savedLanguage) setTranscriptionLanguage(savedLanguage);
     } catch (error) {
       console.error('Failed to load settings:', error);
     }
   };
 
-  const saveSettings = async () => {
-    if (!openaiKey.trim() && !assemblyaiKey.trim()) {
-      Alert.alert('Error', 'Please enter at least one API key');
-      return;
+  const updateProviderSetting = (providerId: string, key: string, value: string) => {
+    setProviderSettings(current => ({
+      ...current,
+      [providerId]: { ...current[providerId], [key]: value },
+    }));
+  };
+
+  const testProviderConnection = async (providerId: string) => {
+    const provider = transcriptionProviders.get(providerId);
+    if (!provider?.testConnection) return;
+
+    setTestingProvider(providerId);
+    try {
+      const result = await provider.testConnection(providerSettings[providerId] || {});
+      Alert.alert(result.ok ? 'Connection OK' : 'Connection Failed', result.message);
+    } catch (error) {
+      Alert.alert('Connection Failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setTestingProvider(null);
     }
+  };
+
+  const updateCorrection = (index: number, changes: Partial<Correction>) => {
+    setCorrections(current => current.map((correction, i) => i === index ? { ...correction, ...changes } : correction));
+  };
+
+  const updateSummarySetting = (changes: Partial<SummarySettings>) => {
+    setSummarySettings(current => ({ ...current, ...changes }));
+  };
+
+  const removeCorrection = (index: number) => {
+    setCorrections(current => current.filter((_, i) => i !== index));
+  };
+
+  const moveProvider = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= providerOrder.length) return;
+
+    const order = [...providerOrder];
+    [order[index], order[target]] = [order[target], order[index]];
+    setProviderOrder(order);
+  };
+
+  const anyProviderConfigured = transcriptionProviders.getAll().some(provider =>
+    (!localOnly || provider.selfHosted) && isProviderConfigured(provider, providerSettings[provider.id] || {})
+  );
 
+  const saveSettings = async () => {
     setIsSaving(true);
     try {
-      await AsyncStorage.setItem('openai_api_key', openaiKey.trim());
-      await AsyncStorage.setItem('assemblyai_api_key', assemblyaiKey.trim());
-      await AsyncStorage.setItem('preferred_provider', preferredProvider);
+      for (const provider of transcriptionProviders.getAll()) {
+        await saveProviderSettings(provider, providerSettings[provider.id] || {});
+      }
+      await saveProviderOrder(providerOrder);
+      await saveLocalOnly(localOnly);
+      await AsyncStorage.setItem('transcription_language', transcriptionLanguage);
+      await saveGlossary(parseGlossary(glossaryText));
+      await saveCorrections(corrections);
+      await saveSummarySettings(summarySettings);
+      await saveBudgetSettings({
+        monthlyBudget: parseFloat(monthlyBudget) || 0,
+        pauseWhenExceeded: pauseWhenOverBudget,
+      });
+
+      const silenceTimeoutSeconds = Math.max(0, Math.round((parseFloat(silenceTimeoutMinutes) || 0) * 60));
+      await AsyncStorage.setItem('silence_timeout_seconds', String(silenceTimeoutSeconds));
+      await AsyncStorage.setItem('recording_profile', recordingProfile);
+      await AsyncStorage.setItem('preroll_seconds', String(Math.max(5, parseInt(preRollSeconds, 10) || 30)));
+      await AsyncStorage.setItem('max_duration_minutes', String(Math.max(0, parseInt(maxDurationMinutes, 10) || 0)));
+      await AsyncStorage.setItem('min_free_space_mb', String(Math.max(0, parseInt(minFreeSpaceMB, 10) || 0)));
+      await AsyncStorage.setItem('excerpt_before_seconds', String(Math.max(0, parseInt(excerptBeforeSeconds, 10) || 0)));
+      await AsyncStorage.setItem('excerpt_after_seconds', String(Math.max(0, parseInt(excerptAfterSeconds, 10) || 0)));
       
-      Alert.alert('Success', 'API keys saved successfully!');
+      if (anyProviderConfigured) {
+        Alert.alert('Success', 'Settings saved successfully!');
+      } else {
+        // Recording settings still apply; only transcription needs a provider
+        Alert.alert('Settings Saved', 'No transcription provider is configured yet, so recordings will not be transcribed.');
+      }
     } catch (error) {
-      Alert.alert('Error', 'Failed to save API keys');
+      Alert.alert('Error', 'Failed to save settings');
       console.error('Save error:', error);
     } finally {
       setIsSaving(false);
@@ -70,12 +224,9 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ onBack }) => {
           style: 'destructive',
           onPress: async () => {
             try {
-              await AsyncStorage.removeItem('openai_api_key');
-              await AsyncStorage.removeItem('assemblyai_api_key');
-              await AsyncStorage.removeItem('preferred_provider');
-              setOpenaiKey('');
-              setAssemblyaiKey('');
-              setPreferredProvider('openai');
+              await clearProviderSettings();
+              setProviderSettings({});
+              setProviderOrder(await getProviderOrder());
               Alert.alert('Success', 'API keys cleared');
             } catch (error) {
               Alert.alert('Error', 'Failed to clear API keys');
@@ -95,72 +246,361 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ onBack }) => {
         <Text style={styles.title}>Settings</Text>
       </View>
 
-      {/* API Keys Section */}
+      {/* Transcription Providers */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>API Keys for Transcription</Text>
-        
+        <Text style={styles.sectionTitle}>Transcription Providers</Text>
+        <Text style={[styles.inputHint, styles.profileHint]}>
+          Tried from top to bottom until one succeeds. Providers without settings are skipped.
+        </Text>
+        <View style={styles.switchRow}>
+          <Text style={styles.inputLabel}>Local Only</Text>
+          <Switch value={localOnly} onValueChange={setLocalOnly} />
+        </View>
+        <Text style={[styles.inputHint, styles.profileHint]}>
+          Only self-hosted providers are used, and audio never falls back to a cloud provider.
+        </Text>
+        {!anyProviderConfigured && (
+          <Text style={[styles.inputHint, styles.profileHint, styles.warningHint]}>
+            {localOnly
+              ? '⚠️ Configure a self-hosted provider to transcribe recordings.'
+              : '⚠️ Configure at least one provider to transcribe recordings.'}
+          </Text>
+        )}
+
+        {providerOrder.map((providerId, index) => {
+          const provider = transcriptionProviders.get(providerId);
+          if (!provider) return null;
+          const settings = providerSettings[provider.id] || {};
+
+          return (
+            <View key={provider.id} style={styles.providerCard}>
+              <View style={styles.providerHeader}>
+                <View style={styles.providerTitle}>
+                  <Text style={styles.providerName}>
+                    {index + 1}. {provider.label}
+                    {provider.description ? ` (${provider.description})` : ''}
+                  </Text>
+                  <Text style={styles.inputHint}>
+                    {isProviderConfigured(provider, settings) ? '✅ Configured' : 'Not configured'}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.orderButton}
+                  onPress={() => moveProvider(index, -1)}
+                  disabled={index === 0}
+                >
+                  <Text style={[styles.orderButtonText, index === 0 && styles.orderButtonDisabled]}>↑</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.orderButton}
+                  onPress={() => moveProvider(index, 1)}
+                  disabled={index === providerOrder.length - 1}
+                >
+                  <Text style={[styles.orderButtonText, index === providerOrder.length - 1 && styles.orderButtonDisabled]}>↓</Text>
+                </TouchableOpacity>
+              </View>
+
+              {provider.settingsSchema.map(field => (
+                <View key={field.key} style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>{field.label}</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={settings[field.key] || ''}
+                    onChangeText={(value) => updateProviderSetting(provider.id, field.key, value)}
+                    placeholder={field.placeholder}
+                    secureTextEntry={field.secure}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  {field.hint && <Text style={styles.inputHint}>{field.hint}</Text>}
+                </View>
+              ))}
+
+              {provider.testConnection && (
+                <TouchableOpacity
+                  style={styles.testButton}
+                  onPress={() => testProviderConnection(provider.id)}
+                  disabled={testingProvider !== null}
+                >
+                  <Text style={styles.testButtonText}>
+                    {testingProvider === provider.id ? 'Testing...' : '🔌 Test Connection'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Transcription Language */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Transcription Language</Text>
+        <LanguagePicker
+          value={transcriptionLanguage}
+          onChange={(language) => setTranscriptionLanguage(language || DEFAULT_LANGUAGE)}
+        />
+        <Text style={[styles.inputHint, styles.profileHint]}>
+          Used for new recordings. Auto-detect lets the provider work it out; a recording can override this in Recordings.
+        </Text>
+      </View>
+
+      {/* Vocabulary */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Vocabulary</Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Glossary</Text>
+          <TextInput
+            style={[styles.textInput, styles.multilineInput]}
+            value={glossaryText}
+            onChangeText={setGlossaryText}
+            placeholder={'TaiRecorder\nFlic'}
+            multiline
+            autoCorrect={false}
+          />
+          <Text style={styles.inputHint}>
+            Names and terms to expect, one per line. Sent to Whisper as its prompt and to AssemblyAI as boosted words.
+          </Text>
+        </View>
+
+        <Text style={styles.inputLabel}>Corrections</Text>
+        {corrections.map((correction, index) => (
+          <View key={index} style={styles.correctionRow}>
+            <TextInput
+              style={[styles.textInput, styles.correctionInput]}
+              value={correction.find}
+              onChangeText={(find) => updateCorrection(index, { find })}
+              placeholder="Heard as"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Text style={styles.correctionArrow}>→</Text>
+            <TextInput
+              style={[styles.textInput, styles.correctionInput]}
+              value={correction.replace}
+              onChangeText={(replace) => updateCorrection(index, { replace })}
+              placeholder="Replace with"
+              autoCorrect={false}
+            />
+            <TouchableOpacity style={styles.orderButton} onPress={() => removeCorrection(index)}>
+              <Text style={styles.orderButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.testButton}
+          onPress={() => setCorrections(current => [...current, { find: '', replace: '' }])}
+        >
+          <Text style={styles.testButtonText}>+ Add Correction</Text>
+        </TouchableOpacity>
+        <Text style={[styles.inputHint, styles.profileHint]}>
+          Applied to every transcript, matching whole words regardless of case.
+        </Text>
+      </View>
+
+      {/* Summaries */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Summaries</Text>
+
+        <View style={styles.switchRow}>
+          <Text style={styles.inputLabel}>Summarize After Transcription</Text>
+          <Switch
+            value={summarySettings.enabled}
+            onValueChange={(enabled) => updateSummarySetting({ enabled })}
+          />
+        </View>
+        <Text style={[styles.inputHint, styles.profileHint]}>
+          Sends the transcript to a chat completions endpoint for a title, summary and action items.
+        </Text>
+        {localOnly && !isLocalBaseUrl(summarySettings.baseUrl) && (
+          <Text style={[styles.inputHint, styles.profileHint, styles.warningHint]}>
+            ⚠️ Local Only is on, so summaries are skipped until the base URL points at a server on your network.
+          </Text>
+        )}
+
         <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>OpenAI API Key</Text>
+          <Text style={styles.inputLabel}>Endpoint Base URL</Text>
           <TextInput
             style={styles.textInput}
-            value={openaiKey}
-            onChangeText={setOpenaiKey}
-            placeholder="sk-proj-..."
-            secureTextEntry={true}
+            value={summarySettings.baseUrl}
+            onChangeText={(baseUrl) => updateSummarySetting({ baseUrl })}
+            placeholder={DEFAULT_SUMMARY_SETTINGS.baseUrl}
             autoCapitalize="none"
             autoCorrect={false}
           />
-          <Text style={styles.inputHint}>Used for Whisper transcription</Text>
+          <Text style={styles.inputHint}>Any OpenAI-compatible server, e.g. http://192.168.1.20:11434/v1 for a local model</Text>
         </View>
 
         <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>AssemblyAI API Key</Text>
+          <Text style={styles.inputLabel}>Model</Text>
           <TextInput
             style={styles.textInput}
-            value={assemblyaiKey}
-            onChangeText={setAssemblyaiKey}
-            placeholder="ae50cb8101ab4576..."
-            secureTextEntry={true}
+            value={summarySettings.model}
+            onChangeText={(model) => updateSummarySetting({ model })}
+            placeholder={DEFAULT_SUMMARY_SETTINGS.model}
             autoCapitalize="none"
             autoCorrect={false}
           />
-          <Text style={styles.inputHint}>Used as backup transcription service</Text>
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>API Key</Text>
+          <TextInput
+            style={styles.textInput}
+            value={summarySettings.apiKey}
+            onChangeText={(apiKey) => updateSummarySetting({ apiKey })}
+            placeholder="sk-..."
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Text style={styles.inputHint}>Leave empty for servers that do not need one</Text>
         </View>
       </View>
 
-      {/* Provider Selection */}
+      {/* Usage & Budget */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Preferred Transcription Service</Text>
-        
-        <TouchableOpacity 
-          style={[
-            styles.providerButton,
-            preferredProvider === 'openai' && styles.selectedProvider
-          ]}
-          onPress={() => setPreferredProvider('openai')}
-        >
-          <Text style={[
-            styles.providerText,
-            preferredProvider === 'openai' && styles.selectedProviderText
-          ]}>
-            OpenAI Whisper (Recommended)
-          </Text>
-        </TouchableOpacity>
+        <Text style={styles.sectionTitle}>Usage & Budget</Text>
 
-        <TouchableOpacity 
-          style={[
-            styles.providerButton,
-            preferredProvider === 'assemblyai' && styles.selectedProvider
-          ]}
-          onPress={() => setPreferredProvider('assemblyai')}
-        >
-          <Text style={[
-            styles.providerText,
-            preferredProvider === 'assemblyai' && styles.selectedProviderText
-          ]}>
-            AssemblyAI
+        {usage && (
+          <View style={styles.usageCard}>
+            <Text style={styles.usageTotal}>
+              This month: {formatCost(usage.cost)} · {usage.minutes.toFixed(1)} min · {usage.jobs} transcription{usage.jobs === 1 ? '' : 's'}
+            </Text>
+            {Object.entries(usage.byProvider).map(([providerId, providerUsage]) => (
+              <Text key={providerId} style={styles.inputHint}>
+                {transcriptionProviders.get(providerId)?.label || providerId}: {formatCost(providerUsage.cost)} · {providerUsage.minutes.toFixed(1)} min · {providerUsage.jobs} job{providerUsage.jobs === 1 ? '' : 's'}
+              </Text>
+            ))}
+            {usage.fallbacks > 0 && (
+              <Text style={styles.inputHint}>{usage.fallbacks} finished on a fallback provider</Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Monthly Budget (USD)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={monthlyBudget}
+            onChangeText={setMonthlyBudget}
+            placeholder="No budget"
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.inputHint}>
+            Costs are estimated from each provider's list price. You are warned at 80% and when the budget is used up.
           </Text>
-        </TouchableOpacity>
+        </View>
+
+        <View style={styles.switchRow}>
+          <Text style={styles.inputLabel}>Pause Auto-Transcription Over Budget</Text>
+          <Switch value={pauseWhenOverBudget} onValueChange={setPauseWhenOverBudget} />
+        </View>
+        <Text style={[styles.inputHint, styles.profileHint]}>
+          New recordings wait until next month or a manual Transcribe from Recordings.
+        </Text>
+      </View>
+
+      {/* Recording Options */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Recording</Text>
+
+        <Text style={styles.inputLabel}>Quality Profile</Text>
+        {Object.values(RECORDING_PROFILES).map(profile => (
+          <TouchableOpacity
+            key={profile.id}
+            style={[
+              styles.providerButton,
+              recordingProfile === profile.id && styles.selectedProvider
+            ]}
+            onPress={() => setRecordingProfile(profile.id)}
+          >
+            <Text style={[
+              styles.providerText,
+              recordingProfile === profile.id && styles.selectedProviderText
+            ]}>
+              {profile.label}
+            </Text>
+            <Text style={styles.providerDescription}>{profile.description}</Text>
+          </TouchableOpacity>
+        ))}
+        <Text style={[styles.inputHint, styles.profileHint]}>Applies to the next recording</Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Auto-stop After Silence (minutes)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={silenceTimeoutMinutes}
+            onChangeText={setSilenceTimeoutMinutes}
+            placeholder="0"
+            keyboardType="numeric"
+          />
+          <Text style={styles.inputHint}>Stops and saves when nothing is heard for this long. 0 turns it off.</Text>
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Pre-roll Buffer (seconds)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={preRollSeconds}
+            onChangeText={setPreRollSeconds}
+            placeholder="30"
+            keyboardType="numeric"
+          />
+          <Text style={styles.inputHint}>How much audio before a click is kept when the buffer is on. Turn it on from the home screen.</Text>
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Max Recording Length (minutes)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={maxDurationMinutes}
+            onChangeText={setMaxDurationMinutes}
+            placeholder="180"
+            keyboardType="numeric"
+          />
+          <Text style={styles.inputHint}>Recordings are saved automatically at this length. 0 means no limit.</Text>
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Minimum Free Space (MB)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={minFreeSpaceMB}
+            onChangeText={setMinFreeSpaceMB}
+            placeholder="200"
+            keyboardType="numeric"
+          />
+          <Text style={styles.inputHint}>Recording stops and saves before free storage drops below this.</Text>
+        </View>
+      </View>
+
+      {/* Bookmark Excerpts */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Bookmark Excerpts</Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Seconds Before Bookmark</Text>
+          <TextInput
+            style={styles.textInput}
+            value={excerptBeforeSeconds}
+            onChangeText={setExcerptBeforeSeconds}
+            placeholder={String(DEFAULT_EXCERPT_WINDOW.beforeSeconds)}
+            keyboardType="numeric"
+          />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Seconds After Bookmark</Text>
+          <TextInput
+            style={styles.textInput}
+            value={excerptAfterSeconds}
+            onChangeText={setExcerptAfterSeconds}
+            placeholder={String(DEFAULT_EXCERPT_WINDOW.afterSeconds)}
+            keyboardType="numeric"
+          />
+          <Text style={styles.inputHint}>The transcript text in this window is pulled out under each bookmark.</Text>
+        </View>
       </View>
 
       {/* Action Buttons */}
@@ -300,6 +740,98 @@ const styles = StyleSheet.create({
     color: '#2196F3',
     fontWeight: '600',
   },
+  providerDescription: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  providerCard: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 15,
+    paddingBottom: 0,
+    marginBottom: 10,
+  },
+  providerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  providerTitle: {
+    flex: 1,
+  },
+  providerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  orderButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  orderButtonText: {
+    fontSize: 20,
+    color: '#2196F3',
+  },
+  orderButtonDisabled: {
+    color: '#ccc',
+  },
+  testButton: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    borderRadius: 8,
+    padding: 10,
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  testButtonText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  usageCard: {
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 15,
+  },
+  usageTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  correctionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  correctionInput: {
+    flex: 1,
+  },
+  correctionArrow: {
+    fontSize: 16,
+    color: '#666',
+    marginHorizontal: 6,
+  },
+  profileHint: {
+    marginTop: 0,
+    marginBottom: 20,
+  },
+  warningHint: {
+    color: '#F57C00',
+  },
   actionsContainer: {
     marginBottom: 30,
   },